@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildAbbreviations, generateAbbreviations, MIN_ABBREVIATION_LENGTH } from "./Abbreviations";
+import { EN } from "./locales/en";
+import { deriveTag, TAG_CATEGORIES } from "./TagEngine";
+
+const METALS = ["Mithril", "Mithan", "Mitral", "Coronium", "Corundum", "Cobalt", "Copper", "Red dragon", "Rune"];
+
+describe("generateAbbreviations", () => {
+  it("gives every key its own abbreviation", () => {
+    const { table, collisions } = generateAbbreviations(METALS, 4);
+    expect(collisions).toEqual([]);
+    const values = [...table.values()].map((v) => v.toLowerCase());
+    expect(new Set(values).size).toBe(METALS.length);
+  });
+
+  it("keeps within the maximum length, never below the minimum", () => {
+    for (const max of [3, 4, 6]) {
+      for (const abbr of generateAbbreviations(METALS, max).table.values()) {
+        expect(abbr.length).toBeLessThanOrEqual(max);
+        expect(abbr.length).toBeGreaterThanOrEqual(MIN_ABBREVIATION_LENGTH);
+      }
+    }
+    for (const abbr of generateAbbreviations(METALS, 1).table.values()) expect(abbr.length).toBe(MIN_ABBREVIATION_LENGTH);
+  });
+
+  it("prefers the plain prefix when it is free", () => {
+    expect(generateAbbreviations(["Mithril", "Copper"], 4).table).toEqual(new Map([["mithril", "Mit"], ["copper", "Cop"]]));
+  });
+
+  it("steers clear of reserved table tags", () => {
+    const { table } = generateAbbreviations(["Coronium"], 4, ["cor", "coro"]);
+    expect(table.get("coronium")).toBe("Crn");
+  });
+
+  it("treats keys that differ only in case as one", () => {
+    expect(generateAbbreviations(["Mithril", "MITHRIL"], 4).table.size).toBe(1);
+  });
+
+  it("resolves a clash over a shared prefix with later candidates", () => {
+    const { table, collisions } = generateAbbreviations(["Corn", "Cord", "Core"], 3);
+    expect(table).toEqual(new Map([["corn", "Crn"], ["cord", "Crd"], ["core", "Cor"]]));
+    expect(collisions).toEqual([]);
+  });
+
+  it("reports keys that end up sharing an abbreviation", () => {
+    const { table, collisions } = generateAbbreviations(["Aaab", "Aaac"], 3);
+    expect(table.get("aaab")).toBe("Aaa");
+    expect(collisions).toEqual([{ abbr: "Aaa", keys: ["aaab", "aaac"], reserved: false }]);
+  });
+
+  it("reports a leftover that equals a reserved tag", () => {
+    expect(generateAbbreviations(["Aaab"], 3, ["aaa"]).collisions).toEqual([{ abbr: "Aaa", keys: ["aaab"], reserved: true }]);
+  });
+});
+
+describe("buildAbbreviations", () => {
+  const names = ["Iron ore", "Coal", "Mithril ore", "Mithan ore", "Iron bar", "Mithril bar", "Pine logs", "Bread"];
+
+  it("abbreviates only names that fall back to their first letters, per category", () => {
+    const { tables } = buildAbbreviations(names, EN, 4);
+    expect([...tables.ore!.keys()].sort()).toEqual(["mithan", "mithril"]);
+    expect([...tables.bar!.keys()]).toEqual(["mithril"]);
+    expect(tables.logs).toBeUndefined();
+  });
+
+  it("makes the tags of a category unique, table tags included", () => {
+    const { tables } = buildAbbreviations(names, EN, 4);
+    const enabled = new Set(TAG_CATEGORIES);
+    const oreTags = ["Iron ore", "Coal", "Mithril ore", "Mithan ore"].map(
+      (n) => deriveTag(n, { enabled, locale: EN, abbreviations: tables })?.text.toLowerCase(),
+    );
+    expect(new Set(oreTags).size).toBe(oreTags.length);
+  });
+});
@@ -0,0 +1,155 @@
+import { AbbreviationLookup, DeriveOptions, deriveTag, isTagCategory, LocalePack, TAG_CATEGORIES, TagCategory } from "./TagEngine";
+
+/**
+ * Abbreviation generator
+ * --------------------------
+ * Replaces the "first three letters" fallback with abbreviations that are
+ * unique within a category. The locale's rules are run over every known
+ * item name; whenever a rule falls through to the fallback, the name part it
+ * looked up (e.g. "Coronium" in "Coronium Bar") becomes a key to abbreviate.
+ * Tags that come from a table are reserved so generated ones never equal them.
+ *
+ * Candidates per key, up to the maximum length: longer prefixes ("Cor",
+ * "Coro"), then initials plus the last word ("R Dra", like the table's
+ * "C Chain"), then the consonant skeleton ("Crn"). Keys take the first
+ * candidate no other key still wants; keys left over keep their prefix. The
+ * finished table is then checked: an abbreviation shared by several keys, or
+ * equal to a reserved tag, is reported as a collision.
+ */
+export interface AbbreviationCollision {
+  category: TagCategory;
+  abbr: string;
+  keys: string[];
+  /** The abbreviation also equals a tag from the table. */
+  reserved: boolean;
+}
+
+export interface GeneratedAbbreviations {
+  tables: Partial<Record<TagCategory, Map<string, string>>>;
+  collisions: AbbreviationCollision[];
+}
+
+export const MIN_ABBREVIATION_LENGTH = 3;
+
+/** Abbreviations for every fallback key found in `names`, per category. */
+export function buildAbbreviations(names: Iterable<string>, locale: LocalePack, maxLength: number): GeneratedAbbreviations {
+  const keys = new Map<TagCategory, Set<string>>();
+  const reserved = new Map<TagCategory, Set<string>>();
+  const add = (map: Map<TagCategory, Set<string>>, c: TagCategory, v: string) => {
+    if (!map.has(c)) map.set(c, new Set());
+    map.get(c)!.add(v);
+  };
+
+  // Lookups that record which keys missed their table instead of answering
+  let misses: Array<[TagCategory, string]> = [];
+  const recorders: Partial<Record<TagCategory, AbbreviationLookup>> = {};
+  for (const c of TAG_CATEGORIES) {
+    recorders[c] = { get: (key) => { misses.push([c, key]); return undefined; } };
+  }
+  const options: DeriveOptions = { enabled: new Set(TAG_CATEGORIES), locale, abbreviations: recorders };
+
+  for (const name of names) {
+    misses = [];
+    const tag = deriveTag(name, options);
+    if (!tag || !isTagCategory(tag.category)) continue;
+    if (misses.length) for (const [c, key] of misses) add(keys, c, key);
+    else add(reserved, tag.category, tag.text.toLowerCase());
+  }
+
+  const result: GeneratedAbbreviations = { tables: {}, collisions: [] };
+  for (const [category, set] of keys) {
+    const { table, collisions } = generateAbbreviations(set, maxLength, reserved.get(category));
+    result.tables[category] = table;
+    for (const c of collisions) result.collisions.push({ category, ...c });
+  }
+  return result;
+}
+
+/** Unique abbreviations for `keys`, keyed by lower-cased key; `reserved` holds lower-cased taken tags. */
+export function generateAbbreviations(
+  keys: Iterable<string>,
+  maxLength: number,
+  reserved: Iterable<string> = [],
+): { table: Map<string, string>; collisions: Array<Omit<AbbreviationCollision, "category">> } {
+  const max = Math.max(MIN_ABBREVIATION_LENGTH, Math.floor(maxLength));
+  const taken = new Set(reserved);
+  const used = new Set(taken);
+  const table = new Map<string, string>();
+
+  // One entry per key regardless of case, keeping the first spelling seen
+  const pending = new Map<string, string[]>();
+  for (const key of keys) {
+    const lower = key.trim().toLowerCase();
+    if (lower && !pending.has(lower)) pending.set(lower, candidates(key.trim(), max));
+  }
+
+  const rounds = Math.max(0, ...[...pending.values()].map((c) => c.length));
+  for (let r = 0; r < rounds && pending.size; r++) {
+    const wanted = new Map<string, string[]>();
+    for (const [lower, cands] of pending) {
+      const c = cands[r];
+      if (!c || used.has(c.toLowerCase())) continue;
+      const k = c.toLowerCase();
+      if (!wanted.has(k)) wanted.set(k, []);
+      wanted.get(k)!.push(lower);
+    }
+    // A candidate is only granted when no other pending key wants it this round
+    for (const [k, owners] of wanted) {
+      if (owners.length !== 1) continue;
+      table.set(owners[0], pending.get(owners[0])![r]);
+      pending.delete(owners[0]);
+      used.add(k);
+    }
+  }
+
+  for (const [lower, cands] of pending) table.set(lower, cands[0] ?? "");
+
+  // A leftover prefix may turn out unique, or clash with a granted or reserved tag
+  const groups = new Map<string, string[]>();
+  for (const [lower, abbr] of table) {
+    const k = abbr.toLowerCase();
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(lower);
+  }
+  const collisions: Array<Omit<AbbreviationCollision, "category">> = [];
+  for (const [k, ks] of groups) {
+    if (ks.length > 1 || taken.has(k)) collisions.push({ abbr: table.get(ks[0])!, keys: ks, reserved: taken.has(k) });
+  }
+  return { table, collisions };
+}
+
+/** Candidates for one key, most readable first, without duplicates. */
+function candidates(key: string, max: number): string[] {
+  const words = key.split(/[\s\-']+/).filter(Boolean).map((w) => Array.from(w));
+  if (!words.length) return [];
+  const letters = words.flat();
+  const skeleton = [letters[0], ...letters.slice(1).filter((ch) => !/[aeiouy]/i.test(ch))]
+    .filter((ch, i, all) => i === 0 || ch.toLowerCase() !== all[i - 1].toLowerCase());
+
+  const out: string[] = [];
+  const push = (chars: string[]) => {
+    const s = cap(chars.join(""));
+    if (s.trim() && !out.some((o) => o.toLowerCase() === s.toLowerCase())) out.push(s);
+  };
+  const lengths = Array.from({ length: max - MIN_ABBREVIATION_LENGTH + 1 }, (_, i) => MIN_ABBREVIATION_LENGTH + i);
+  for (const len of lengths) push(letters.slice(0, len));
+  if (words.length > 1) {
+    const initials = words.slice(0, -1).map((w) => w[0]);
+    for (const len of lengths) {
+      const rest = len - initials.length - 1;
+      if (rest > 0) push([...initials, " ", ...words[words.length - 1].slice(0, rest)]);
+    }
+  }
+  for (const len of lengths) if (skeleton.length >= len) push(skeleton.slice(0, len));
+  return out;
+}
+
+function cap(s: string): string {
+  return s
+    .split(" ")
+    .map((w) => {
+      const [first = "", ...rest] = Array.from(w);
+      return first.toLocaleUpperCase() + rest.join("").toLocaleLowerCase();
+    })
+    .join(" ");
+}
@@ -0,0 +1,125 @@
+import { CATEGORY_LABELS, CATEGORY_NAMES, CategoryId, isTagCategory, TagProvider, TagResult } from "./TagEngine";
+
+/**
+ * Public API
+ * --------------------------
+ * Lets other HighLite plugins add tag categories and read tags without
+ * forking this one. The same object is available as the plugin's `api`
+ * property and, while the plugin runs, as `window.ItemTagsAPI`:
+ *
+ *   const tags = window.ItemTagsAPI;
+ *   const off = tags.registerProvider({
+ *     id: "clue",
+ *     label: "Clue",
+ *     priority: 500,            // after user rules, before the built-in tags
+ *     derive: (name) => /^clue scroll \((\w+)\)$/i.test(name ?? "") ? { text: "Clue" } : null,
+ *   });
+ *   tags.getTag("Clue Scroll (hard)");            // { category: "clue", text: "Clue", ... }
+ *   const stop = tags.onTagsUpdated(({ full }) => { ... });
+ *
+ * Priorities: above 1000 runs before the user's custom rules, 1 to 1000
+ * between custom rules and the built-in tags, 0 or below only for items no
+ * built-in rule tags. Equal priorities keep registration order. Registering
+ * an id again replaces the earlier provider; each registration returns its
+ * own unregister function. Stopping the plugin unregisters every provider.
+ */
+export interface TagsUpdatedEvent {
+  /** True when every badge was re-derived (settings, providers or locale changed). */
+  full: boolean;
+}
+
+/** What the plugin supplies to answer queries with its current settings. */
+export interface ApiHost {
+  deriveTag(name: string | null, id: number | null): TagResult | null;
+  cellTag(cell: HTMLElement): TagResult | null;
+}
+
+const providers: TagProvider[] = [];
+const providerListeners = new Set<() => void>();
+
+/** Registered providers, highest priority first. */
+export function getProviders(): readonly TagProvider[] {
+  return providers;
+}
+
+/** Unregisters every provider, for when the plugin stops. */
+export function clearProviders() {
+  if (!providers.length) return;
+  providers.length = 0;
+  notifyProviders();
+}
+
+/** Called whenever a provider is added, replaced or removed. */
+export function onProvidersChanged(cb: () => void): () => void {
+  providerListeners.add(cb);
+  return () => providerListeners.delete(cb);
+}
+
+/** Short label of a built-in or provider category; unknown ids are shown as-is. */
+export function categoryLabel(category: CategoryId): string {
+  if (isTagCategory(category) || category === "custom") return CATEGORY_LABELS[category];
+  return providers.find((p) => p.id === category)?.label ?? category;
+}
+
+/** Full name of a built-in category; provider categories only have their label. */
+export function categoryName(category: CategoryId): string {
+  if (isTagCategory(category) || category === "custom") return CATEGORY_NAMES[category];
+  return categoryLabel(category);
+}
+
+export class ItemTagsApi {
+  private updateListeners = new Set<(e: TagsUpdatedEvent) => void>();
+
+  constructor(private readonly host: ApiHost) {}
+
+  registerProvider(provider: TagProvider): () => void {
+    if (!provider?.id || typeof provider.derive !== "function") throw new Error("ItemTags provider needs an id and derive()");
+    if (isTagCategory(provider.id) || provider.id === "custom") {
+      throw new Error(`ItemTags provider id '${provider.id}' is reserved`);
+    }
+    const entry: TagProvider = { ...provider, priority: Number.isFinite(provider.priority) ? provider.priority : 500 };
+
+    const i = providers.findIndex((p) => p.id === entry.id);
+    if (i >= 0) providers.splice(i, 1);
+    // Stable: after every provider with the same or higher priority
+    const at = providers.findIndex((p) => p.priority < entry.priority);
+    providers.splice(at < 0 ? providers.length : at, 0, entry);
+    notifyProviders();
+
+    return () => {
+      const j = providers.indexOf(entry);
+      if (j < 0) return;
+      providers.splice(j, 1);
+      notifyProviders();
+    };
+  }
+
+  /** The tag this plugin would show for the item, with the user's current settings. */
+  getTag(name: string | null, id: number | null = null): TagResult | null {
+    return this.host.deriveTag(name, id);
+  }
+
+  /** The tag currently shown on an `.hs-item-table__cell`, or null. */
+  getCellTag(cell: HTMLElement): TagResult | null {
+    return this.host.cellTag(cell);
+  }
+
+  /** Called after each scan that rendered badges. */
+  onTagsUpdated(cb: (e: TagsUpdatedEvent) => void): () => void {
+    this.updateListeners.add(cb);
+    return () => this.updateListeners.delete(cb);
+  }
+
+  /** @internal Used by the plugin after a scan. */
+  emitUpdated(e: TagsUpdatedEvent) {
+    for (const cb of this.updateListeners) {
+      try { cb(e); } catch {}
+    }
+  }
+}
+
+function notifyProviders() {
+  for (const cb of providerListeners) {
+    try { cb(); } catch {}
+  }
+}
@@ -0,0 +1,92 @@
+import { categoryLabel } from "./Api";
+import { CategoryId, formatTag, TagResult } from "./TagEngine";
+
+/**
+ * Bank filter
+ * --------------------------
+ * A search box and one chip per category, placed above the bank table.
+ * Cells are matched against the same `TagResult` the badges show, so the
+ * filter and the tags always agree: a cell matches when its category is
+ * among the selected chips (if any) and its tag text contains the search
+ * text (if any). The plugin dims or hides the cells that do not match.
+ */
+export class BankFilter {
+  private bar: HTMLElement | null = null;
+  private input: HTMLInputElement | null = null;
+  private selected = new Set<CategoryId>();
+  private query = "";
+
+  constructor(private readonly onChange: () => void) {}
+
+  get active(): boolean {
+    return this.selected.size > 0 || this.query.length > 0;
+  }
+
+  matches(tag: TagResult | null): boolean {
+    if (!this.active) return true;
+    if (!tag) return false;
+    if (this.selected.size && !this.selected.has(tag.category)) return false;
+    return !this.query || formatTag(tag).toLowerCase().includes(this.query);
+  }
+
+  /** Places the bar above `table`, rebuilding chips when the category list changed. */
+  mount(table: HTMLElement, categories: CategoryId[]) {
+    const key = categories.join(",");
+    if (this.bar?.isConnected && this.bar.nextElementSibling === table && this.bar.dataset.categories === key) return;
+    this.bar?.remove();
+
+    // Drop selections for categories that are no longer offered
+    for (const c of [...this.selected]) if (!categories.includes(c)) this.selected.delete(c);
+
+    const bar = document.createElement("div");
+    bar.className = "hs-item-tags-filter";
+    bar.setAttribute("data-hs-tag-ui", "true");
+    bar.dataset.categories = key;
+
+    const input = document.createElement("input");
+    input.type = "search";
+    input.className = "hs-item-tags-filter__input";
+    input.placeholder = "Filter tags…";
+    input.value = this.query;
+    // Keep typing from reaching the game's key bindings
+    input.addEventListener("keydown", (ev) => ev.stopPropagation());
+    input.addEventListener("input", () => {
+      this.query = input.value.trim().toLowerCase();
+      this.onChange();
+    });
+    bar.appendChild(input);
+
+    for (const c of categories) {
+      const chip = document.createElement("button");
+      chip.type = "button";
+      chip.className = "hs-item-tags-filter__chip";
+      chip.textContent = categoryLabel(c);
+      chip.setAttribute("data-category", c);
+      chip.toggleAttribute("data-selected", this.selected.has(c));
+      chip.addEventListener("click", () => {
+        if (this.selected.has(c)) this.selected.delete(c);
+        else this.selected.add(c);
+        chip.toggleAttribute("data-selected", this.selected.has(c));
+        this.onChange();
+      });
+      bar.appendChild(chip);
+    }
+
+    table.parentElement?.insertBefore(bar, table);
+    this.bar = bar;
+    this.input = input;
+  }
+
+  unmount() {
+    this.bar?.remove();
+    this.bar = null;
+    this.input = null;
+  }
+
+  clear() {
+    this.selected.clear();
+    this.query = "";
+    if (this.input) this.input.value = "";
+    this.bar?.querySelectorAll("[data-selected]").forEach((el) => el.removeAttribute("data-selected"));
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { ChangeEntry, ChangeLog, diffSnapshots, formatChange, SlotSnapshot } from "./ChangeLog";
+
+const T0 = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+function slot(id: number | null, name: string | null, amount = 1): SlotSnapshot {
+  return { id, name, amount };
+}
+
+function entry(overrides: Partial<ChangeEntry> = {}): ChangeEntry {
+  return { time: T0, location: "bag", category: "Logs", name: "Pine logs", tag: "Pine", delta: 3, ...overrides };
+}
+
+describe("diffSnapshots", () => {
+  it("reports nothing for identical snapshots", () => {
+    const snapshot = [slot(1, "Pine logs", 5), null];
+    expect(diffSnapshots(snapshot, snapshot)).toEqual({ items: [], slots: [] });
+  });
+
+  it("reports amount changes in place", () => {
+    const { items, slots } = diffSnapshots([slot(1, "Pine logs", 5)], [slot(1, "Pine logs", 8)]);
+    expect(items).toEqual([{ id: 1, name: "Pine logs", delta: 3 }]);
+    expect(slots).toEqual([{ slot: 0, id: 1, name: "Pine logs", delta: 3 }]);
+  });
+
+  it("counts a replaced item as a loss and a gain in that slot", () => {
+    const { items, slots } = diffSnapshots([slot(1, "Pine logs", 2)], [slot(2, "Iron ore", 1)]);
+    expect(items).toEqual([{ id: 1, name: "Pine logs", delta: -2 }, { id: 2, name: "Iron ore", delta: 1 }]);
+    expect(slots.map((s) => [s.slot, s.delta])).toEqual([[0, -2], [0, 1]]);
+  });
+
+  it("nets out items that only moved between slots", () => {
+    const { items, slots } = diffSnapshots([slot(1, "Pine logs"), null], [null, slot(1, "Pine logs")]);
+    expect(items).toEqual([]);
+    expect(slots.map((s) => [s.slot, s.delta])).toEqual([[0, -1], [1, 1]]);
+  });
+
+  it("keys items without an ID by name, ignoring case", () => {
+    const { items } = diffSnapshots([slot(null, "Pine logs", 1), slot(null, "pine LOGS", 1)], [slot(null, "Pine logs", 3)]);
+    expect(items).toEqual([{ id: null, name: "Pine logs", delta: 1 }]);
+  });
+
+  it("handles snapshots of different lengths", () => {
+    const { slots } = diffSnapshots([], [null, slot(1, "Pine logs", 4)]);
+    expect(slots).toEqual([{ slot: 1, id: 1, name: "Pine logs", delta: 4 }]);
+  });
+});
+
+describe("formatChange", () => {
+  it("shows the signed amount and the item name", () => {
+    expect(formatChange(entry())).toBe("+3 Pine logs");
+    expect(formatChange(entry({ name: "Potion of Stamina (4)", tag: "Stam (4)", delta: -1 }))).toBe("-1 Potion of Stamina (4)");
+  });
+});
+
+describe("ChangeLog", () => {
+  it("lists newest first and keeps at most the limit", () => {
+    const log = new ChangeLog(2);
+    log.add(entry({ delta: 1 }));
+    log.add(entry({ delta: 2 }));
+    log.add(entry({ delta: 3 }));
+    expect(log.list().map((e) => e.delta)).toEqual([3, 2]);
+    log.clear();
+    expect(log.list()).toEqual([]);
+  });
+
+  it("exports CSV oldest first, with the item and tag in separate columns", () => {
+    const log = new ChangeLog();
+    log.add(entry());
+    log.add(entry({ time: T0 + 1000, location: "bank", name: "Potion of Stamina (4)", tag: "Stam (4)", category: "Potions", delta: -1 }));
+    expect(log.toCSV().split("\n")).toEqual([
+      "time,location,category,item,tag,change",
+      "2025-01-01T12:00:00.000Z,bag,Logs,Pine logs,Pine,3",
+      "2025-01-01T12:00:01.000Z,bank,Potions,Potion of Stamina (4),Stam (4),-1",
+    ]);
+  });
+
+  it("quotes CSV cells with commas, quotes or line breaks", () => {
+    const log = new ChangeLog();
+    log.add(entry({ name: `Bob's "lucky", hat`, tag: "a\nb" }));
+    expect(log.toCSV().split("\n").slice(1).join("\n")).toBe(`2025-01-01T12:00:00.000Z,bag,Logs,"Bob's ""lucky"", hat","a\nb",3`);
+  });
+
+  it("keeps CSV cells from being read as formulas", () => {
+    const log = new ChangeLog();
+    log.add(entry({ name: "=HYPERLINK(\"x\")", tag: "+1", category: "-", location: "@bag" as any }));
+    const [row] = log.toCSV().split("\n").slice(1);
+    expect(row).toBe(`2025-01-01T12:00:00.000Z,'@bag,'-,"'=HYPERLINK(""x"")",'+1,3`);
+  });
+
+  it("exports JSON oldest first", () => {
+    const log = new ChangeLog();
+    log.add(entry());
+    log.add(entry({ time: T0 + 1000, delta: -2 }));
+    expect(JSON.parse(log.toJSON())).toEqual([
+      { time: "2025-01-01T12:00:00.000Z", location: "bag", category: "Logs", item: "Pine logs", tag: "Pine", change: 3 },
+      { time: "2025-01-01T12:00:01.000Z", location: "bag", category: "Logs", item: "Pine logs", tag: "Pine", change: -2 },
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { DoseLocation } from "./Doses";
+
+/**
+ * Change log
+ * --------------------------
+ * Compares snapshots of the bag and the bank taken after each change, so
+ * the plugin can flash the slots that gained or lost items and keep a log
+ * for the session: "+3 Pine logs", "-1 Potion of Stamina (4)". Snapshots are keyed by item,
+ * not by tag, so changing tag settings does not show up as changes.
+ */
+export interface SlotSnapshot {
+  id: number | null;
+  name: string | null;
+  amount: number;
+}
+
+/** One entry per slot; empty slots are null. */
+export type ContainerSnapshot = Array<SlotSnapshot | null>;
+
+export interface ItemChange {
+  id: number | null;
+  name: string | null;
+  delta: number;
+}
+
+export interface SlotChange extends ItemChange {
+  slot: number;
+}
+
+export interface ChangeEntry {
+  time: number;
+  location: DoseLocation;
+  category: string;
+  /** Item name, or `#id` when the client has no name for it. */
+  name: string;
+  tag: string;
+  delta: number;
+}
+
+export function diffSnapshots(before: ContainerSnapshot, after: ContainerSnapshot): { items: ItemChange[]; slots: SlotChange[] } {
+  const slots: SlotChange[] = [];
+  const totals = new Map<string, ItemChange>();
+  const count = (s: SlotSnapshot, sign: 1 | -1) => {
+    const key = itemKey(s);
+    const entry = totals.get(key) ?? { id: s.id, name: s.name, delta: 0 };
+    entry.delta += sign * s.amount;
+    totals.set(key, entry);
+  };
+
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    const b = before[i] ?? null;
+    const a = after[i] ?? null;
+    if (b) count(b, -1);
+    if (a) count(a, 1);
+    if (b && a && itemKey(b) === itemKey(a)) {
+      if (a.amount !== b.amount) slots.push({ slot: i, id: a.id, name: a.name, delta: a.amount - b.amount });
+      continue;
+    }
+    // A different item counts as losing the old one and gaining the new one
+    if (b) slots.push({ slot: i, id: b.id, name: b.name, delta: -b.amount });
+    if (a) slots.push({ slot: i, id: a.id, name: a.name, delta: a.amount });
+  }
+
+  return { items: Array.from(totals.values()).filter((c) => c.delta !== 0), slots };
+}
+
+/** Session log, newest first, keeping at most `limit` entries. */
+export class ChangeLog {
+  private entries: ChangeEntry[] = [];
+
+  constructor(private readonly limit = 1000) {}
+
+  add(entry: ChangeEntry) {
+    this.entries.unshift(entry);
+    if (this.entries.length > this.limit) this.entries.length = this.limit;
+  }
+
+  list(): readonly ChangeEntry[] {
+    return this.entries;
+  }
+
+  clear() {
+    this.entries = [];
+  }
+
+  /** Oldest first, for reading a session top to bottom. */
+  toCSV(): string {
+    const rows = [...this.entries].reverse().map((e) =>
+      [...[new Date(e.time).toISOString(), e.location, e.category, e.name, e.tag].map(csvField), String(e.delta)].join(","),
+    );
+    return ["time,location,category,item,tag,change", ...rows].join("\n");
+  }
+
+  toJSON(): string {
+    const rows = [...this.entries].reverse().map((e) => ({
+      time: new Date(e.time).toISOString(),
+      location: e.location,
+      category: e.category,
+      item: e.name,
+      tag: e.tag,
+      change: e.delta,
+    }));
+    return JSON.stringify(rows, null, 2);
+  }
+}
+
+/** "+3 Pine logs", "-1 Potion of Stamina (4)". */
+export function formatChange(entry: ChangeEntry): string {
+  return `${entry.delta > 0 ? "+" : ""}${entry.delta} ${entry.name}`;
+}
+
+function itemKey(s: SlotSnapshot): string {
+  return s.id != null ? `#${s.id}` : (s.name ?? "").toLowerCase();
+}
+
+/**
+ * Quotes a text cell as needed. Cells starting with a formula character get a
+ * leading `'` so spreadsheets show an item named "=SUM(...)" as text.
+ */
+function csvField(value: string): string {
+  if (/^[=+\-@\t\r]/.test(value)) value = `'${value}`;
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
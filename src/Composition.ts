@@ -0,0 +1,62 @@
+import { CategoryId, formatTagText, TAG_CATEGORIES, TagResult } from "./TagEngine";
+
+/**
+ * Composition summary
+ * --------------------------
+ * What the bag and the bank hold, grouped by tag category and then by tag:
+ * "Logs: 4 types / 2,310", expanding to "Oak 1,200", "Maple 610", ... Items
+ * of the same tag share one entry, so potions of every dose count together.
+ */
+export interface CompositionEntry {
+  tag: TagResult;
+  amount: number;
+}
+
+export interface TagTotal {
+  text: string;
+  total: number;
+}
+
+export interface CategoryTotal {
+  category: CategoryId;
+  total: number;
+  /** Largest stack first. */
+  tags: TagTotal[];
+}
+
+/** Built-in categories in their usual order, then custom and provider categories by name. */
+export function summarizeComposition(entries: readonly CompositionEntry[]): CategoryTotal[] {
+  const byCategory = new Map<CategoryId, Map<string, number>>();
+  for (const { tag, amount } of entries) {
+    let tags = byCategory.get(tag.category);
+    if (!tags) byCategory.set(tag.category, (tags = new Map()));
+    const text = formatTagText(tag);
+    tags.set(text, (tags.get(text) ?? 0) + amount);
+  }
+
+  const rank = (c: CategoryId) => {
+    const i = (TAG_CATEGORIES as readonly string[]).indexOf(c);
+    return i >= 0 ? i : TAG_CATEGORIES.length;
+  };
+  return Array.from(byCategory, ([category, tags]) => ({
+    category,
+    total: Array.from(tags.values()).reduce((a, b) => a + b, 0),
+    tags: Array.from(tags, ([text, total]) => ({ text, total })).sort((a, b) => b.total - a.total || a.text.localeCompare(b.text)),
+  })).sort((a, b) => rank(a.category) - rank(b.category) || String(a.category).localeCompare(String(b.category)));
+}
+
+/** Selection key of a category row, or of one tag in it. */
+export function compositionKey(category: CategoryId, text?: string): string {
+  return text == null ? String(category) : `${category}|${text}`;
+}
+
+/** Whether a tag falls under the selected row. */
+export function matchesCompositionKey(key: string, tag: TagResult | null): boolean {
+  if (!tag) return false;
+  return key === compositionKey(tag.category) || key === compositionKey(tag.category, formatTagText(tag));
+}
+
+/** Whole number with thousands separators: 2,310. */
+export function formatCount(n: number): string {
+  return Math.round(n).toLocaleString("en-US");
+}
@@ -0,0 +1,225 @@
+/**
+ * Item containers
+ * --------------------------
+ * Every `.hs-item-table` variant that can carry tags is described by an
+ * `ItemContainer`: how to find its cells, how to get the game item behind a
+ * slot and how to hear about changes. Each container gets its own
+ * "Off / Gear Only / All" setting.
+ *
+ * Game hook paths for inventory, bank and shop are the ones the client is
+ * known to expose. The newer containers try likely paths and fall back to the
+ * cell's `data-item-name`/`title` attributes, with the MutationObserver
+ * covering their updates.
+ */
+export type ContainerMode = "Off" | "Gear Only" | "All";
+
+export type ChangeCallback = (...args: any[]) => void;
+
+export const CONTAINER_MODES: ContainerMode[] = ["Off", "Gear Only", "All"];
+
+export interface ItemContainer {
+  id: string;
+  label: string;
+  /** Class of the `.hs-item-table` element, e.g. `hs-item-table--bank`. */
+  tableClass: string;
+  defaultMode: ContainerMode;
+  /** Game object the hooks attach to, shown in diagnostics; omitted when read from cell attributes only. */
+  hookPath?: string;
+  resolveItem(em: any, slotId: number, cell: HTMLElement): any | null;
+  /** Every item in the container, empty slots included, for totals and prices that must not depend on what is on screen. */
+  items?(em: any): Array<any | null> | null;
+  /**
+   * Returns unsubscribe functions for whatever change hooks were found.
+   * `onChange` receives the hook's own arguments; see `slotsFromPayload`.
+   */
+  subscribe(em: any, onChange: ChangeCallback): Array<() => void>;
+}
+
+const registry: ItemContainer[] = [];
+
+/** Adds a container; a later registration with the same id replaces the earlier one. */
+export function registerContainer(container: ItemContainer) {
+  const i = registry.findIndex((c) => c.id === container.id);
+  if (i >= 0) registry.splice(i, 1, container);
+  else registry.push(container);
+}
+
+/** Registered containers followed by the catch-all for unregistered tables. */
+export function getContainers(): readonly ItemContainer[] {
+  return [...registry, OTHER_TABLES];
+}
+
+export function containerForCell(cell: HTMLElement): ItemContainer | null {
+  for (const c of registry) {
+    if (cell.closest(`.${c.tableClass}`)) return c;
+  }
+  return cell.closest(`.${OTHER_TABLES.tableClass}`) ? OTHER_TABLES : null;
+}
+
+export function cellSelector(containers: readonly ItemContainer[]): string {
+  return containers.map((c) => `.${c.tableClass} .hs-item-table__cell`).join(",");
+}
+
+export function tableSelector(containers: readonly ItemContainer[]): string {
+  return containers.map((c) => `.${c.tableClass}`).join(",");
+}
+
+// ---------- Subscription helpers ----------
+/** `listener.add(fn)` / `listener.remove(fn)` as used by the client's *Listener objects. */
+export function subscribeListener(listener: any, cb: ChangeCallback): (() => void) | null {
+  if (!listener?.add) return null;
+  listener.add(cb);
+  return () => listener?.remove?.(cb);
+}
+
+/** Try common subscription shapes without throwing if absent. */
+export function subscribeAny(obj: any, cb: ChangeCallback): (() => void) | null {
+  if (!obj) return null;
+
+  // 1) Observable-style: obj.OnChange.Subscribe(fn) -> token ; Unsubscribe(token)
+  if (obj.OnChange?.Subscribe) {
+    const token = obj.OnChange.Subscribe(cb);
+    return () => obj.OnChange?.Unsubscribe?.(token);
+  }
+  if (obj.OnItemsChanged?.Subscribe) {
+    const token = obj.OnItemsChanged.Subscribe(cb);
+    return () => obj.OnItemsChanged?.Unsubscribe?.(token);
+  }
+
+  // 2) EventEmitter: obj.on('change', fn) / obj.off('change', fn)
+  if (typeof obj.on === "function" && typeof obj.off === "function") {
+    obj.on("change", cb);
+    return () => obj.off("change", cb);
+  }
+
+  // 3) addEventListener style
+  if (typeof obj.addEventListener === "function" && typeof obj.removeEventListener === "function") {
+    obj.addEventListener("change", cb);
+    return () => obj.removeEventListener("change", cb);
+  }
+  return null;
+}
+
+const collect = (...subs: Array<(() => void) | null>): Array<() => void> =>
+  subs.filter((u): u is () => void => !!u);
+
+/**
+ * Slot indices named by a change hook's arguments, or null when the payload
+ * does not say which slots changed (callers then re-check the whole table).
+ * Only objects, or arrays of them, carrying `slot`/`_slot`/`Slot`/`index`/`_index`
+ * count: a bare number could as well be an item ID or an amount.
+ */
+export function slotsFromPayload(args: any[]): Set<number> | null {
+  const slots = new Set<number>();
+  const visit = (v: any, depth: number): boolean => {
+    if (Array.isArray(v) && depth < 2) return v.length > 0 && v.every((x) => visit(x, depth + 1));
+    if (v && typeof v === "object") {
+      const s = v.slot ?? v._slot ?? v.Slot ?? v.index ?? v._index;
+      if (typeof s !== "number" || !Number.isInteger(s) || s < 0) return false;
+      slots.add(s);
+      return true;
+    }
+    return false;
+  };
+  if (!args.length || !args.every((a) => visit(a, 0))) return null;
+  return slots;
+}
+
+/** Pseudo-item from the cell's own attributes, for tables without a known hook path. */
+export function itemFromCellAttributes(cell: HTMLElement): any | null {
+  const host = cell.querySelector<HTMLElement>("[data-item-name]") ?? cell;
+  const name = host.getAttribute("data-item-name") || cell.getAttribute("title");
+  return name ? { _name: name } : null;
+}
+
+// ---------- Built-in containers ----------
+registerContainer({
+  id: "inventory",
+  label: "Bag",
+  tableClass: "hs-item-table--inventory",
+  defaultMode: "All",
+  hookPath: "MainPlayer.Inventory",
+  resolveItem: (em, slotId) => em?.MainPlayer?.Inventory?.Items?.[slotId] ?? null,
+  items: (em) => em?.MainPlayer?.Inventory?.Items ?? null,
+  subscribe: (em, cb) => {
+    const inv = em?.MainPlayer?.Inventory;
+    return collect(subscribeListener(inv?.OnInventoryChangeListener, cb) ?? subscribeAny(inv, cb));
+  },
+});
+
+registerContainer({
+  id: "bank",
+  label: "Bank",
+  tableClass: "hs-item-table--bank",
+  defaultMode: "All",
+  hookPath: "MainPlayer.BankStorageItems",
+  resolveItem: (em, slotId) => em?.MainPlayer?._bankItems?._items?.[slotId] ?? null,
+  items: (em) => em?.MainPlayer?._bankItems?._items ?? null,
+  subscribe: (em, cb) => {
+    const mainPlayer = em?.MainPlayer;
+    const bankStorage = mainPlayer?.BankStorageItems;
+    return collect(
+      subscribeListener(bankStorage?.OnInventoryChangeListener, cb),
+      subscribeListener(bankStorage?.OnReorganizedItemsListener, cb),
+      // Fallback to older/internal bank items containers
+      subscribeAny(mainPlayer?._bankItems, cb),
+    );
+  },
+});
+
+registerContainer({
+  id: "shop",
+  label: "Shop",
+  tableClass: "hs-item-table--shop",
+  defaultMode: "All",
+  hookPath: "MainPlayer._currentState._shopItems",
+  resolveItem: (em, slotId) => em?.MainPlayer?._currentState?._shopItems?._items?.[slotId] ?? null,
+  items: (em) => em?.MainPlayer?._currentState?._shopItems?._items ?? null,
+  subscribe: (em, cb) => collect(subscribeAny(em?.MainPlayer?._currentState?._shopItems, cb)),
+});
+
+registerContainer({
+  id: "equipment",
+  label: "Equipment",
+  tableClass: "hs-item-table--equipment",
+  defaultMode: "Off",
+  hookPath: "MainPlayer.Loadout",
+  resolveItem: (em, slotId, cell) => {
+    const loadout = em?.MainPlayer?.Loadout ?? em?.MainPlayer?._loadout;
+    return (loadout?.Items ?? loadout?._items)?.[slotId] ?? itemFromCellAttributes(cell);
+  },
+  subscribe: (em, cb) => {
+    const loadout = em?.MainPlayer?.Loadout ?? em?.MainPlayer?._loadout;
+    return collect(subscribeListener(loadout?.OnLoadoutChangeListener, cb) ?? subscribeAny(loadout, cb));
+  },
+});
+
+registerContainer({
+  id: "trade",
+  label: "Trade",
+  tableClass: "hs-item-table--trade",
+  defaultMode: "Off",
+  hookPath: "MainPlayer._currentState._tradeItems",
+  resolveItem: (em, slotId, cell) =>
+    em?.MainPlayer?._currentState?._tradeItems?._items?.[slotId] ?? itemFromCellAttributes(cell),
+  subscribe: (em, cb) => collect(subscribeAny(em?.MainPlayer?._currentState?._tradeItems, cb)),
+});
+
+registerContainer({
+  id: "loot",
+  label: "Loot",
+  tableClass: "hs-item-table--loot",
+  defaultMode: "Off",
+  resolveItem: (_em, _slotId, cell) => itemFromCellAttributes(cell),
+  subscribe: () => [],
+});
+
+/** Any `.hs-item-table` no registered container claims, read from cell attributes. */
+const OTHER_TABLES: ItemContainer = {
+  id: "other",
+  label: "Other Tables",
+  tableClass: "hs-item-table",
+  defaultMode: "Off",
+  resolveItem: (_em, _slotId, cell) => itemFromCellAttributes(cell),
+  subscribe: () => [],
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { DoseContext, DoseEntry, parsePotion, summarizeDoses } from "./Doses";
+import { EN } from "./locales/en";
+
+const CONTEXT: DoseContext = { locale: EN };
+
+function bag(name: string, amount = 1): DoseEntry {
+  return { name, amount, location: "bag" };
+}
+
+function bank(name: string, amount = 1): DoseEntry {
+  return { name, amount, location: "bank" };
+}
+
+describe("parsePotion", () => {
+  it("reads the type and dose count", () => {
+    expect(parsePotion("Potion of Stamina (3)", CONTEXT)).toEqual({ type: "Stam", doses: 3 });
+    expect(parsePotion("Potion of Strength (1)", CONTEXT)).toEqual({ type: "Str", doses: 1 });
+  });
+
+  it("ignores items that are not dosed potions", () => {
+    expect(parsePotion("Pine logs", CONTEXT)).toBeNull();
+    expect(parsePotion("Potion of Stamina", CONTEXT)).toBeNull();
+  });
+});
+
+describe("summarizeDoses", () => {
+  it("totals doses per type and location", () => {
+    const [stam] = summarizeDoses([bag("Potion of Stamina (3)", 2), bank("Potion of Stamina (4)", 5)], 4, CONTEXT);
+    expect(stam).toMatchObject({ type: "Stam", total: 26, byLocation: { bag: 6, bank: 20 } });
+  });
+
+  it("counts only potions below the full dose as partial", () => {
+    const [stam] = summarizeDoses([bag("Potion of Stamina (2)", 3), bag("Potion of Stamina (4)", 2)], 4, CONTEXT);
+    expect(stam.partialCount).toBe(3);
+  });
+
+  it("flags partials that pour into fewer potions", () => {
+    const [stam] = summarizeDoses([bag("Potion of Stamina (2)"), bank("Potion of Stamina (2)")], 4, CONTEXT);
+    expect(stam.mergeable).toBe(true);
+  });
+
+  it("leaves partials alone when merging would leave as many", () => {
+    // 3 + 2 doses still fill two potions, one full and one with a leftover dose
+    const [stam] = summarizeDoses([bag("Potion of Stamina (3)"), bag("Potion of Stamina (2)")], 4, CONTEXT);
+    expect(stam).toMatchObject({ partialCount: 2, mergeable: false });
+    const [str] = summarizeDoses([bag("Potion of Strength (1)")], 4, CONTEXT);
+    expect(str.mergeable).toBe(false);
+  });
+
+  it("skips non-potions and empty stacks and sorts by type", () => {
+    const summaries = summarizeDoses(
+      [bag("Potion of Strength (2)"), bag("Pine logs", 10), bag("Potion of Stamina (1)", 0), bank("Potion of Stamina (1)")],
+      4,
+      CONTEXT,
+    );
+    expect(summaries.map((s) => [s.type, s.total])).toEqual([["Stam", 1], ["Str", 2]]);
+  });
+});
@@ -0,0 +1,68 @@
+import { DeriveOptions, deriveTag, formatTagText, TagCategory } from "./TagEngine";
+
+/**
+ * Potion doses
+ * --------------------------
+ * Totals doses per potion type and spots partial-dose potions that could be
+ * combined. Potions are recognised by the tag engine's potion rule, so the
+ * type label here is exactly the tag text ("Stam" for "Stam (3)").
+ */
+export type DoseLocation = "bag" | "bank";
+
+export interface DoseSummary {
+  /** Tag text of the potion type, e.g. "Stam". */
+  type: string;
+  total: number;
+  byLocation: Record<DoseLocation, number>;
+  /** Potions holding fewer than the full dose count. */
+  partialCount: number;
+  /** True when pouring the partial potions together would leave fewer of them. */
+  mergeable: boolean;
+}
+
+const POTIONS_ONLY: ReadonlySet<TagCategory> = new Set<TagCategory>(["potion"]);
+
+/** Name rules and abbreviations to use, as for the badges. */
+export type DoseContext = Pick<DeriveOptions, "locale" | "abbreviations">;
+
+/** Potion type and dose count for an item name, or null if it is not a dosed potion. */
+export function parsePotion(name: string, context: DoseContext): { type: string; doses: number } | null {
+  const tag = deriveTag(name, { enabled: POTIONS_ONLY, locale: context.locale, abbreviations: context.abbreviations });
+  const doses = tag?.suffix ? parseInt(tag.suffix.slice(1, -1), 10) : NaN;
+  if (!tag || !Number.isFinite(doses)) return null;
+  return { type: formatTagText(tag), doses };
+}
+
+export interface DoseEntry {
+  name: string;
+  amount: number;
+  location: DoseLocation;
+}
+
+export function summarizeDoses(entries: DoseEntry[], fullDose: number, context: DoseContext): DoseSummary[] {
+  const byType = new Map<string, DoseSummary & { partialDoses: number }>();
+
+  for (const e of entries) {
+    const potion = parsePotion(e.name, context);
+    if (!potion || e.amount <= 0) continue;
+    let s = byType.get(potion.type);
+    if (!s) {
+      s = { type: potion.type, total: 0, byLocation: { bag: 0, bank: 0 }, partialCount: 0, mergeable: false, partialDoses: 0 };
+      byType.set(potion.type, s);
+    }
+    const doses = potion.doses * e.amount;
+    s.total += doses;
+    s.byLocation[e.location] += doses;
+    if (potion.doses < fullDose) {
+      s.partialCount += e.amount;
+      s.partialDoses += doses;
+    }
+  }
+
+  return [...byType.values()]
+    .map(({ partialDoses, ...s }) => ({
+      ...s,
+      mergeable: s.partialCount > 1 && Math.ceil(partialDoses / fullDose) < s.partialCount,
+    }))
+    .sort((a, b) => a.type.localeCompare(b.type));
+}
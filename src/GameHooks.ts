@@ -0,0 +1,195 @@
+import { ChangeCallback, getContainers, ItemContainer } from "./Containers";
+
+/**
+ * Game hook adapter
+ * --------------------------
+ * The only place that reaches into the client's game hooks. `bind()` checks
+ * every path the plugin relies on and records what happened to it:
+ *
+ *   bound     the hook was found and is subscribed
+ *   fallback  no change hook; the MutationObserver covers updates
+ *   failed    the path is missing or threw, so that feature cannot work
+ *
+ * The client creates most of these objects on login and swaps some of them
+ * (the shop's items, trade) on state changes, so `refresh()` rebinds when the
+ * player or its state object is replaced. Errors from tagging are counted
+ * here too, so a broken path shows up in diagnostics instead of vanishing.
+ */
+export type HookStatus = "bound" | "fallback" | "failed";
+
+export interface HookReport {
+  id: string;
+  label: string;
+  status: HookStatus;
+  detail: string;
+}
+
+const STATUS_LABELS: Record<HookStatus, string> = {
+  bound: "OK",
+  fallback: "Fallback",
+  failed: "Failed",
+};
+
+export class GameHookAdapter {
+  private unsubscribers: Array<() => void> = [];
+  private reports: HookReport[] = [];
+  private boundKey: string | null = null;
+  private errors = 0;
+  private lastError = "";
+  private listeners = new Set<() => void>();
+
+  /**
+   * @param gameHooks the plugin's `gameHooks`, if HighLite injected them
+   * @param onChange called with a container's hook arguments when it changes
+   */
+  constructor(
+    private readonly gameHooks: () => any,
+    private readonly onChange: (container: ItemContainer, args: any[]) => void,
+  ) {}
+
+  /** The hooks object, from the plugin or, failing that, the global HighLite instance. */
+  private hooks(): any {
+    return this.gameHooks() ?? (document as any).highlite?.gameHooks ?? null;
+  }
+
+  entityManager(): any {
+    return this.hooks()?.EntityManager?.Instance ?? null;
+  }
+
+  itemDefinitionMap(): any {
+    const gh = this.hooks();
+    return gh?.ItemDefinitionManager?._itemDefMap ?? gh?.ItemDefMap?.ItemDefMap ?? null;
+  }
+
+  itemDefinition(id: number | null): any {
+    if (id == null) return null;
+    try {
+      return this.itemDefinitionMap()?.get?.(id) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** ID and name of every item definition the client has loaded. */
+  knownItems(): Array<[number, string]> {
+    const items: Array<[number, string]> = [];
+    try {
+      for (const [key, def] of this.itemDefinitionMap()?.entries?.() ?? []) {
+        const id = typeof def?._id === "number" ? def._id : Number(key);
+        const name = def?._nameCapitalized || def?._name;
+        if (Number.isInteger(id) && typeof name === "string" && name.trim()) items.push([id, name.trim()]);
+      }
+    } catch {}
+    return items;
+  }
+
+  knownItemNames(): string[] {
+    return this.knownItems().map(([, name]) => name);
+  }
+
+  /** Drops any earlier subscriptions and checks every path again. */
+  bind() {
+    this.unbind();
+    const reports: HookReport[] = [];
+    const em = this.entityManager();
+
+    reports.push(
+      em
+        ? { id: "entityManager", label: "EntityManager", status: "bound", detail: "EntityManager.Instance" }
+        : { id: "entityManager", label: "EntityManager", status: "failed", detail: "Not available; not logged in yet?" },
+    );
+    const defs = this.itemDefinitionMap();
+    reports.push(
+      defs?.get
+        ? { id: "itemDefinitions", label: "Item names", status: "bound", detail: `${defs.size ?? "?"} definitions` }
+        : { id: "itemDefinitions", label: "Item names", status: "fallback", detail: "No definition map; names come from the item or cell" },
+    );
+
+    for (const c of getContainers()) reports.push(this.bindContainer(em, c));
+
+    this.reports = reports;
+    this.boundKey = this.stateKey();
+    this.notify();
+  }
+
+  unbind() {
+    for (const u of this.unsubscribers.splice(0)) {
+      try { u(); } catch {}
+    }
+    this.boundKey = null;
+  }
+
+  /** Rebinds when the player or its state object was replaced since the last `bind()`. */
+  refresh(): boolean {
+    if (this.stateKey() === this.boundKey) return false;
+    this.bind();
+    return true;
+  }
+
+  /** Counts an exception that would otherwise be swallowed to protect the game loop. */
+  recordError(context: string, e: unknown) {
+    this.errors++;
+    this.lastError = `${context}: ${(e as Error)?.message ?? e}`;
+    this.notify();
+  }
+
+  /** `label  status · detail` rows for the diagnostics panel. */
+  rows(): Array<[string, string]> {
+    const rows = this.reports.map((r): [string, string] => [r.label, `${STATUS_LABELS[r.status]} · ${r.detail}`]);
+    rows.push(["Tag errors", this.errors ? `${this.errors} · last ${this.lastError}` : "None"]);
+    return rows;
+  }
+
+  onChanged(cb: () => void): () => void {
+    this.listeners.add(cb);
+    return () => this.listeners.delete(cb);
+  }
+
+  private bindContainer(em: any, c: ItemContainer): HookReport {
+    const path = c.hookPath;
+    if (!path) return { id: c.id, label: c.label, status: "fallback", detail: "Cell attributes; MutationObserver" };
+    if (!em) return { id: c.id, label: c.label, status: "failed", detail: `${path}: no EntityManager` };
+
+    try {
+      const cb: ChangeCallback = (...args: any[]) => this.onChange(c, args);
+      const subs = c.subscribe(em, cb);
+      this.unsubscribers.push(...subs);
+      if (subs.length) return { id: c.id, label: c.label, status: "bound", detail: `${path}, ${subs.length} hook(s)` };
+      const found = c.items ? c.items(em) != null : true;
+      return {
+        id: c.id,
+        label: c.label,
+        status: "fallback",
+        detail: found ? `${path}: no change hook; MutationObserver` : `${path} not present yet; MutationObserver`,
+      };
+    } catch (e) {
+      return { id: c.id, label: c.label, status: "failed", detail: `${path}: ${(e as Error)?.message ?? e}` };
+    }
+  }
+
+  /** Identity of the objects hooks are attached to; a change means they must be re-attached. */
+  private stateKey(): string {
+    const player = this.entityManager()?.MainPlayer;
+    return `${objectId(player)}|${objectId(player?._currentState)}|${objectId(this.itemDefinitionMap())}`;
+  }
+
+  private notify() {
+    for (const cb of this.listeners) {
+      try { cb(); } catch {}
+    }
+  }
+}
+
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+/** Stable number per object, so replaced objects can be told apart without holding them. */
+function objectId(obj: unknown): number {
+  if (!obj || typeof obj !== "object") return 0;
+  let id = objectIds.get(obj);
+  if (id == null) {
+    id = nextObjectId++;
+    objectIds.set(obj, id);
+  }
+  return id;
+}
@@ -0,0 +1,62 @@
+/**
+ * Hotkeys
+ * --------------------------
+ * Parses bindings written as `Alt+T`, `Ctrl+Shift+P` or a single key such as
+ * `F6` or `Alt`. Matching ignores key case; a binding that is only a modifier
+ * matches that modifier's own key events, which is what hold-to-show needs.
+ */
+export interface Hotkey {
+  key: string;
+  alt: boolean;
+  ctrl: boolean;
+  shift: boolean;
+}
+
+const MODIFIERS: Record<string, keyof Omit<Hotkey, "key">> = {
+  alt: "alt", option: "alt", ctrl: "ctrl", control: "ctrl", cmd: "ctrl", meta: "ctrl", shift: "shift",
+};
+
+/** Null for blank or malformed text. */
+export function parseHotkey(text: string): Hotkey | null {
+  const parts = (text || "").split("+").map((p) => p.trim().toLowerCase()).filter(Boolean);
+  if (!parts.length) return null;
+
+  const hotkey: Hotkey = { key: "", alt: false, ctrl: false, shift: false };
+  for (const [i, part] of parts.entries()) {
+    const mod = MODIFIERS[part];
+    if (mod && i < parts.length - 1) hotkey[mod] = true;
+    else if (i === parts.length - 1) hotkey.key = mod ? normalizeKey(part) : part === "space" ? " " : part;
+    else return null;
+  }
+  return hotkey;
+}
+
+/** Full match for press bindings: the key and exactly the listed modifiers. */
+export function matchesHotkey(ev: KeyboardEvent, hotkey: Hotkey): boolean {
+  if (!keyMatches(ev, hotkey)) return false;
+  return isModifierKey(hotkey.key) || (ev.altKey === hotkey.alt && (ev.ctrlKey || ev.metaKey) === hotkey.ctrl && ev.shiftKey === hotkey.shift);
+}
+
+/** Key-only match, for noticing a held key's release whatever else is down. */
+export function keyMatches(ev: KeyboardEvent, hotkey: Hotkey): boolean {
+  if (normalizeKey(ev.key || "") === hotkey.key) return true;
+  // Alt and Shift change `key` on some layouts ("Alt+T" → "†"); the physical code does not
+  return (ev.code || "").replace(/^(Key|Digit)/, "").toLowerCase() === hotkey.key;
+}
+
+/** Typing in our own or the game's text fields must not trigger bindings. */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || /^(input|textarea|select)$/i.test(el.tagName || ""));
+}
+
+function normalizeKey(key: string): string {
+  const k = key.toLowerCase();
+  if (k === "control" || k === "meta" || k === "cmd") return "ctrl";
+  if (k === "option") return "alt";
+  return k;
+}
+
+function isModifierKey(key: string): boolean {
+  return key === "alt" || key === "ctrl" || key === "shift";
+}
@@ -0,0 +1,74 @@
+import { isTagCategory, TAG_CATEGORIES, TagCategory, TagResult } from "./TagEngine";
+
+/**
+ * Icon tags
+ * --------------------------
+ * An alternative to the text abbreviations for small UI scales: each
+ * category has a glyph (a flask for potions, an ingot for bars, ...) tinted
+ * by the material or gem in the item's name. Glyphs and tints live in
+ * resources/css/icons.css as SVG masks; this only picks the attributes.
+ *
+ * The style is chosen globally and overridden per category as
+ * `category=text|icon|both`, separated by `;` or new lines, e.g.
+ * `gem=icon; potion=both`.
+ */
+export type TagStyle = "text" | "icon" | "both";
+
+export const TAG_STYLES = ["Text", "Icon", "Both"];
+
+export interface TagIcon {
+  glyph: string;
+  /** Material or gem word with a tint in icons.css, or null for the badge color. */
+  tint: string | null;
+  /** Small number shown next to the glyph, e.g. a potion's doses. */
+  label: string | null;
+}
+
+const GLYPHS: Record<TagCategory | "custom", string> = {
+  gear: "sword", potion: "flask", logs: "log", root: "leaf", scroll: "scroll",
+  bow: "bow", ore: "rock", bar: "ingot", jewelry: "ring", gem: "gem", custom: "pip",
+};
+
+const TINTS = [
+  "bronze", "iron", "steel", "silver", "gold", "coal", "coronium", "celadium",
+  "amethyst", "sapphire", "emerald", "ruby", "citrine", "diamond", "carbonado",
+];
+
+const STYLES: TagStyle[] = ["text", "icon", "both"];
+
+/** Provider categories have no glyph of their own and show a pip. */
+export function tagIcon(tag: TagResult, name: string | null): TagIcon {
+  const glyph = isTagCategory(tag.category) || tag.category === "custom" ? GLYPHS[tag.category] : "pip";
+  const words = (name ?? "").toLowerCase().split(/[^a-z]+/);
+  const tint = TINTS.find((t) => words.includes(t)) ?? null;
+  const label = tag.category === "potion" && tag.suffix ? /\d+/.exec(tag.suffix)?.[0] ?? null : null;
+  return { glyph, tint, label };
+}
+
+export function parseCategoryStyles(text: string): { styles: Partial<Record<TagCategory | "custom", TagStyle>>; errors: string[] } {
+  const styles: Partial<Record<TagCategory | "custom", TagStyle>> = {};
+  const errors: string[] = [];
+
+  for (const rawEntry of (text || "").split(/[\n;]/)) {
+    const entry = rawEntry.trim();
+    if (!entry) continue;
+    const m = /^([a-z]+)\s*=\s*([a-z]+)$/i.exec(entry);
+    if (!m) {
+      errors.push(`Expected 'category=text|icon|both': ${entry}`);
+      continue;
+    }
+    const category = m[1].toLowerCase() as TagCategory | "custom";
+    if (category !== "custom" && !TAG_CATEGORIES.includes(category)) {
+      errors.push(`Unknown category '${m[1]}'`);
+      continue;
+    }
+    const style = m[2].toLowerCase() as TagStyle;
+    if (!STYLES.includes(style)) {
+      errors.push(`Style must be text, icon or both: ${entry}`);
+      continue;
+    }
+    styles[category] = style;
+  }
+
+  return { styles, errors };
+}
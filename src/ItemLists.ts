@@ -0,0 +1,110 @@
+/**
+ * Item lists
+ * --------------------------
+ * Named lists of items ("Quest", "Keep", "Drop") that mark their members
+ * wherever tags are shown. Lists are defined one per line (or separated by
+ * `;`) as `<name>: <marker> [#color] [label]`:
+ *
+ *   Quest: border #ffcc00          outline around the slot
+ *   Keep: badge #4caf50 K          small colored badge with a label
+ *   Drop: icon #ff5252 ✖           icon without a background
+ *
+ * Members are stored separately, per list name, as `#id` or a lower-cased
+ * item name, so renaming or restyling a list keeps its items.
+ */
+export type ListMarker = "border" | "badge" | "icon";
+
+export interface ItemListDef {
+  name: string;
+  marker: ListMarker;
+  color: string;
+  /** Badge text or icon; defaults to the list's first letter or a star. */
+  label: string;
+}
+
+export type ListMembers = Record<string, string[]>;
+
+const MARKERS: ListMarker[] = ["border", "badge", "icon"];
+const HEX = /^#[0-9a-f]{3,8}$/i;
+const DEFAULT_COLOR = "#ffcc00";
+
+export function parseListDefinitions(text: string): { lists: ItemListDef[]; errors: string[] } {
+  const lists: ItemListDef[] = [];
+  const errors: string[] = [];
+
+  for (const rawLine of (text || "").split(/[\n;]/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const m = /^([^:]+):\s*(\S+)(?:\s+(#\S+))?(?:\s+(.+))?$/i.exec(line);
+    const marker = m?.[2].toLowerCase() as ListMarker;
+    if (!m || !MARKERS.includes(marker)) {
+      errors.push(`Expected 'name: border|badge|icon [#color] [label]': ${line}`);
+      continue;
+    }
+    if (m[3] && !HEX.test(m[3])) {
+      errors.push(`Colors must be hex, e.g. #ffcc00: ${line}`);
+      continue;
+    }
+    const name = m[1].trim();
+    if (lists.some((l) => l.name === name)) {
+      errors.push(`List '${name}' is defined twice`);
+      continue;
+    }
+    const label = m[4]?.trim() || (marker === "icon" ? "★" : Array.from(name)[0].toUpperCase());
+    lists.push({ name, marker, color: m[3] ?? DEFAULT_COLOR, label });
+  }
+
+  return { lists, errors };
+}
+
+/** Keys an item can be listed under. */
+export function memberKeys(id: number | null, name: string | null): string[] {
+  const keys: string[] = [];
+  if (id != null) keys.push(`#${id}`);
+  if (name?.trim()) keys.push(name.trim().toLowerCase());
+  return keys;
+}
+
+/** Pasted names and IDs, separated by new lines, `;` or `,`; bare numbers are IDs. */
+export function parseMemberText(text: string): string[] {
+  return (text || "")
+    .split(/[\n;,]/)
+    .map((t) => t.trim())
+    .filter(Boolean)
+    .map((t) => (/^#?\d+$/.test(t) ? `#${t.replace(/^#/, "")}` : t.toLowerCase()));
+}
+
+/** Lists the item belongs to, in definition order. */
+export function listsFor(lists: readonly ItemListDef[], members: ListMembers, id: number | null, name: string | null): ItemListDef[] {
+  const keys = memberKeys(id, name);
+  if (!keys.length) return [];
+  return lists.filter((l) => members[l.name]?.some((k) => keys.includes(k)));
+}
+
+/** Adds the item to the list, or removes it if it was already there; returns whether it is now a member. */
+export function toggleMember(members: ListMembers, list: string, id: number | null, name: string | null): boolean {
+  const keys = memberKeys(id, name);
+  const current = members[list] ?? [];
+  if (current.some((k) => keys.includes(k))) {
+    members[list] = current.filter((k) => !keys.includes(k));
+    return false;
+  }
+  if (!keys.length) return false;
+  members[list] = [...current, keys[0]];
+  return true;
+}
+
+export function parseMembers(json: string): ListMembers {
+  try {
+    const data = JSON.parse(json || "{}");
+    const members: ListMembers = {};
+    if (data && typeof data === "object" && !Array.isArray(data)) {
+      for (const [list, items] of Object.entries(data)) {
+        if (Array.isArray(items)) members[list] = items.filter((k): k is string => typeof k === "string");
+      }
+    }
+    return members;
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,178 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import tables from "./__fixtures__/tables.html";
+import { createFakeGame, FakeGameShapes, HOOK_SHAPES, item, loadSettings, nextFrame } from "./__fixtures__/fakeGame";
+import { getProviders } from "./Api";
+import ItemTags from "./ItemTags";
+
+const BADGE = '.hs-inventory-item__tag[data-hs-tag-overlay="true"]';
+
+function badgeText(table: string, slot: number): string | null {
+  const cell = document.querySelector(`.hs-item-table--${table} .hs-item-table__cell[data-slot="${slot}"]`);
+  return cell?.querySelector(BADGE)?.textContent ?? null;
+}
+
+describe("ItemTags", () => {
+  let game: ReturnType<typeof createFakeGame>;
+  let plugin: ItemTags;
+
+  function newGame(shapes: FakeGameShapes = {}) {
+    game = createFakeGame(shapes);
+    game.inventory.Items = [item(1, "Pine logs", 5), item(2, "Potion of Stamina (3)"), item(3, "Iron scimitar")];
+    game.bank._items = [item(4, "Coronium bar", 20), item(5, "Oak logs", 100)];
+    game.shop._items = [item(6, "Potion of Stamina (4)")];
+  }
+
+  async function startWith(values: Record<string, unknown> = {}) {
+    plugin = new ItemTags();
+    (plugin as any).gameHooks = game.gameHooks;
+    loadSettings(plugin.settings, values);
+    plugin.init();
+    plugin.start();
+    await nextFrame();
+  }
+
+  beforeEach(() => {
+    document.body.innerHTML = tables;
+    newGame();
+  });
+
+  afterEach(() => {
+    plugin?.stop();
+    document.body.innerHTML = "";
+    document.documentElement.lang = "";
+    vi.useRealTimers();
+  });
+
+  it("tags the bag, bank and shop on start", async () => {
+    await startWith();
+    expect(badgeText("inventory", 0)).toBe("Pine");
+    expect(badgeText("inventory", 1)).toBe("Stam (3)");
+    expect(badgeText("bank", 1)).toBe("Oak");
+    expect(badgeText("shop", 0)).toBe("Stam (4)");
+  });
+
+  it("updates a slot when its container's change listener fires", async () => {
+    await startWith();
+    game.setBagSlot(0, item(7, "Potion of Stamina (2)"));
+    game.setBankSlot(1, null);
+    game.setShopSlot(0, item(1, "Pine logs"));
+    await nextFrame();
+    expect(badgeText("inventory", 0)).toBe("Stam (2)");
+    expect(badgeText("bank", 1)).toBeNull();
+    expect(badgeText("shop", 0)).toBe("Pine");
+  });
+
+  // The bag accepts every shape; the defaults already spread them over the other containers
+  it.each(HOOK_SHAPES)("follows and releases a bag with a %s hook", async (shape) => {
+    newGame({ inventory: shape });
+    await startWith();
+    expect(game.hooks.inventory.count).toBe(1);
+    game.setBagSlot(0, item(7, "Potion of Stamina (2)"));
+    await nextFrame();
+    expect(badgeText("inventory", 0)).toBe("Stam (2)");
+    plugin.stop();
+    expect(game.hooks.inventory.count).toBe(0);
+  });
+
+  it("re-checks the whole table when the payload names no slot", async () => {
+    await startWith();
+    game.inventory.Items[0] = item(7, "Oak logs");
+    // An item ID, not a slot index
+    game.hooks.inventory.fire(7);
+    await nextFrame();
+    expect(badgeText("inventory", 0)).toBe("Oak");
+  });
+
+  it("migrates showWhere and leaves the bag alone for Bank Only", async () => {
+    await startWith({ showWhere: "Bank Only" });
+    expect(badgeText("inventory", 0)).toBeNull();
+    expect(badgeText("inventory", 1)).toBeNull();
+    expect(badgeText("bank", 1)).toBe("Oak");
+  });
+
+  it("tags only gear, jewelry and potions in the bag for Gear Only", async () => {
+    await startWith({ showWhere: "Bank+Bag(Gear Only)" });
+    expect(badgeText("inventory", 0)).toBeNull();
+    expect(badgeText("inventory", 1)).toBe("Stam (3)");
+    expect(badgeText("bank", 1)).toBe("Oak");
+  });
+
+  it("carries a turned-off Dark Items setting over to Gear", async () => {
+    await startWith({ showDarkItems: false });
+    expect(plugin.settings.showGear.value).toBe(false);
+    expect(plugin.settings.showDarkItems.value).toBe("");
+    expect(badgeText("inventory", 2)).toBeNull();
+  });
+
+  it("tags a table that opens after start", async () => {
+    const bank = document.querySelector(".hs-item-table--bank")!;
+    bank.remove();
+    await startWith();
+    document.body.appendChild(bank);
+    await nextFrame();
+    expect(badgeText("bank", 1)).toBe("Oak");
+  });
+
+  it("tags by ID on a client language without a pack", async () => {
+    document.documentElement.lang = "xx";
+    game.definitions.set(1, { _id: 1, _name: "Pine logs" });
+    await startWith();
+    expect(badgeText("inventory", 0)).toBe("Pine");
+    expect(badgeText("inventory", 1)).toBeNull();
+  });
+
+  it("keeps custom rules and category colors when switching to a built-in profile", async () => {
+    await startWith({ customRulesText: "Pine logs=Tree", categoryColorsText: "logs=#00ff00" });
+    plugin.settings.profile.value = "Skilling";
+    plugin.settings.profile.callback();
+    await nextFrame();
+    expect(plugin.settings.customRulesText.value).toBe("Pine logs=Tree");
+    expect(plugin.settings.categoryColorsText.value).toBe("logs=#00ff00");
+    expect(plugin.settings.showGear.value).toBe(false);
+  });
+
+  it("hides only the tag badges until the hold key is pressed", async () => {
+    game.shop._items = [item(1, "Pine logs")];
+    await startWith({ hotkeyHold: "Alt", shopOwned: true });
+    const shopCell = document.querySelector('.hs-item-table--shop .hs-item-table__cell[data-slot="0"]')!;
+    const shown = (selector: string) => getComputedStyle(shopCell.querySelector(selector)!).display !== "none";
+    expect(shown(BADGE)).toBe(false);
+    expect(shown('[data-hs-tag-overlay="owned"]')).toBe(true);
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "Alt", altKey: true }));
+    expect(shown(BADGE)).toBe(true);
+  });
+
+  it("cancels pending slot flashes on stop", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    await startWith({ changeLog: true });
+    game.setBagSlot(0, item(1, "Pine logs", 8));
+    await nextFrame();
+    expect(document.querySelector('[data-hs-tag-flash="gain"]')).not.toBeNull();
+    expect(vi.getTimerCount()).toBe(1);
+    plugin.stop();
+    expect(vi.getTimerCount()).toBe(0);
+    expect(document.querySelector("[data-hs-tag-flash]")).toBeNull();
+  });
+
+  it("removes badges and every hook subscription on stop", async () => {
+    await startWith();
+    expect(document.querySelectorAll(BADGE).length).toBeGreaterThan(0);
+    for (const [name, hook] of Object.entries(game.hooks)) expect(hook.count, name).toBe(1);
+    plugin.stop();
+    expect(document.querySelectorAll("[data-hs-tag-overlay]")).toHaveLength(0);
+    expect(game.listenerCount()).toBe(0);
+  });
+
+  it("withdraws the public API and its providers on stop", async () => {
+    await startWith();
+    expect((window as any).ItemTagsAPI).toBe(plugin.api);
+    plugin.api.registerProvider({ id: "clue", label: "Clue", priority: 500, derive: () => ({ text: "Clue" }) });
+    expect(getProviders()).toHaveLength(1);
+    plugin.stop();
+    expect("ItemTagsAPI" in window).toBe(false);
+    expect(getProviders()).toHaveLength(0);
+    plugin.start();
+    expect((window as any).ItemTagsAPI).toBe(plugin.api);
+  });
+});
@@ -1,15 +1,89 @@
 import { Plugin, SettingsTypes } from "@highlite/core";
 import styles from "../resources/css/base.css";
+import iconStyles from "../resources/css/icons.css";
+import { buildAbbreviations } from "./Abbreviations";
+import { categoryLabel, categoryName, clearProviders, getProviders, ItemTagsApi, onProvidersChanged } from "./Api";
+import { BankFilter } from "./BankFilter";
+import { ChangeLog, ContainerSnapshot, diffSnapshots, formatChange, SlotChange } from "./ChangeLog";
+import { CompositionEntry, compositionKey, formatCount, matchesCompositionKey, summarizeComposition } from "./Composition";
+import { DoseEntry, DoseLocation, summarizeDoses } from "./Doses";
+import { parseCategoryStyles, TAG_STYLES, TagIcon, tagIcon, TagStyle } from "./Icons";
+import { isTypingTarget, keyMatches, matchesHotkey, parseHotkey } from "./Hotkeys";
+import { ItemListDef, ListMembers, listsFor, parseListDefinitions, parseMembers, parseMemberText, toggleMember } from "./ItemLists";
+import { FloatingPanel } from "./Panel";
+import { CONTAINER_MODES, ContainerMode, ItemContainer, cellSelector, containerForCell, getContainers, slotsFromPayload, tableSelector } from "./Containers";
+import { GameHookAdapter } from "./GameHooks";
+import { formatValue, parsePriceTable, parseValue, PriceBook, PriceSource } from "./Prices";
+import { chainLinks, DEFAULT_RECIPES, isLinked, parseRecipes, RecipeChain } from "./Recipes";
+import { ScanProfiler } from "./ScanProfiler";
+import { CategoryToggleBar } from "./ToggleBar";
+import { TagTooltip } from "./Tooltip";
+import { BUILTIN_PROFILES, exportProfiles, importProfiles, locationsFromShowWhere, SHOW_WHERE_OPTIONS, TagProfile } from "./Profiles";
+import { CategoryColor, parseCategoryColors, suffixKind, TAG_THEMES, themeAttr } from "./TagColors";
+import { buildIdTags, CategoryId, DeriveOptions, deriveTag, formatTag, formatTagText, IdTagTable, LocalePack, TAG_CATEGORIES, TagCategory, TagResult } from "./TagEngine";
+import { clientLocale, getLocalePacks, resolveClientPack } from "./locales";
+import { EN } from "./locales/en";
+import { parseUserRules, UserRule } from "./UserRules";
+
+const BADGE_ANCHORS = ["Bottom Left", "Bottom Right", "Top Left", "Top Right"];
+const TOOLTIP_MODIFIERS = ["None", "Shift", "Alt", "Ctrl"];
+const PRIMARY_BADGE = ":scope > .hs-inventory-item__tag[data-hs-tag-overlay=\"true\"]";
+const SECONDARY_BADGE = ":scope > .hs-inventory-item__tag[data-hs-tag-overlay=\"secondary\"]";
+const VALUE_BADGE = ":scope > .hs-inventory-item__tag[data-hs-tag-overlay=\"value\"]";
+const LIST_BADGE = ":scope > .hs-inventory-item__tag[data-hs-tag-overlay=\"list\"]";
+const OWNED_BADGE = ":scope > .hs-inventory-item__tag[data-hs-tag-overlay=\"owned\"]";
+const TAG_BADGES = `${PRIMARY_BADGE}, ${SECONDARY_BADGE}`;
+
+/** "Price Source" options and the lookup order each stands for. */
+const PRICE_SOURCES: Record<string, PriceSource[]> = {
+  "Imported, then Shop": ["imported", "shop"],
+  "Shop, then Imported": ["shop", "imported"],
+  "Imported Only": ["imported"],
+  "Shop Only": ["shop"],
+};
+
+/** Length of the gained/lost slot flash; matches the animation in base.css. */
+const FLASH_MS = 1500;
+
+/** How often to check whether the player or its state object was replaced. */
+const HOOK_REFRESH_MS = 2000;
+
+const GEAR_ONLY: ReadonlySet<TagCategory> = new Set<TagCategory>(["gear", "jewelry", "potion"]);
+
+/** Settings key that switches each built-in category on or off. */
+const CATEGORY_SETTINGS: Record<TagCategory, string> = {
+  gear: "showGear",
+  potion: "showPotions",
+  logs: "showLogs",
+  root: "showRoots",
+  scroll: "showScrolls",
+  bow: "showBows",
+  ore: "showOres",
+  bar: "showBars",
+  jewelry: "showJewelry",
+  gem: "showGems",
+};
 
 /**
  * ItemTags Plugin
  * --------------------------
- * Adds a small bottom-left "tag" overlay to inventory/bank/shop items for
- * categories Roots, Potions, Logs, Scrolls. Tags are derived from item names.
+ * Adds a small bottom-left "tag" overlay to item table cells (bag, bank, shop
+ * and the other containers registered in Containers.ts) for
+ * categories Roots, Potions, Logs, Scrolls. Tags are derived from item names
+ * by the rule table in TagEngine.ts.
  *
  * Event strategy:
- *  - Prefer gamehooks-driven updates via inventory/bank/shop change signals.
+ *  - Prefer gamehooks-driven updates via inventory/bank/shop change signals,
+ *    bound through GameHooks.ts and rebound on login and state changes.
  *  - Fallback to a MutationObserver if no reliable hook is available.
+ *  - Settings changes trigger a full rescan. Hook and DOM changes only
+ *    re-check the cells they name, and a cell whose item is unchanged keeps
+ *    its badge. Derived tags and amount typography are cached until the
+ *    next full rescan.
+ *
+ * User rules (see UserRules.ts) are checked before the built-in categories
+ * so new or renamed items can be tagged without a plugin release.
+ * Named profiles (see Profiles.ts) snapshot the settings for sharing.
  *
  * Styling mirrors `.hs-inventory-item__amount`, but anchors at the bottom.
  * The tag is attached to the *same parent* as the amount badge when present
@@ -19,11 +93,55 @@ export default class ItemTags extends Plugin {
   pluginName = "ItemTags";
   author = "Ellz";
 
+  /** For other plugins; see Api.ts. */
+  readonly api = new ItemTagsApi({
+    deriveTag: (name, id) => this.cachedTag(name, id, false),
+    cellTag: (cell) => this.cellState.get(cell)?.tag ?? null,
+  });
+
   private styleEl: HTMLStyleElement | null = null;
   private observer: MutationObserver | null = null;
   private rafId: number | null = null;
   private unsubscribers: Array<() => void> = [];
   private started = false;
+  private userRules: UserRule[] = [];
+  private itemLists: ItemListDef[] = [];
+  private listMembers: ListMembers = {};
+  private recipes: RecipeChain[] = parseRecipes(DEFAULT_RECIPES).chains;
+  private categoryColors: Partial<Record<CategoryId, CategoryColor>> = {};
+  private categoryStyles: Partial<Record<CategoryId, TagStyle>> = {};
+
+  // Incremental scan state, reset by every full rescan
+  private pendingFull = false;
+  private pendingAll = false;
+  private dirtyCells = new Set<HTMLElement>();
+  private cellState = new WeakMap<HTMLElement, { sig: string; tag: TagResult | null; name: string | null }>();
+  private tagCache = new Map<string, TagResult | null>();
+  private typographyCache = new WeakMap<Element, Record<string, string>>();
+  private deriveOptions: DeriveOptions | null = null;
+  private abbreviations: { key: string; tables: DeriveOptions["abbreviations"] } | null = null;
+  private idTags: { key: string; table: IdTagTable } | null = null;
+  private profiler = new ScanProfiler((line) => this.log(line));
+  private bankFilter = new BankFilter(() => this.applyBankFilter());
+  private bankFiltering = false;
+  private dosePanel = new FloatingPanel("doses", "Potion Doses");
+  private mergeHintsShown = false;
+  private diagnosticsPanel = new FloatingPanel("hooks", "Hook Diagnostics");
+  private compositionPanel = new FloatingPanel("composition", "Bag & Bank Summary");
+  private compositionSelection: string | null = null;
+  private changePanel = new FloatingPanel("changes", "Item Changes");
+  private changeLog = new ChangeLog();
+  private snapshots = new Map<DoseLocation, ContainerSnapshot>();
+  /** Pending flash clear-ups, per tag host. */
+  private flashTimers = new Map<HTMLElement, number>();
+  private hooks = new GameHookAdapter(() => (this as any).gameHooks, (c, args) => this.onContainerChanged(c, args));
+  private tooltip = new TagTooltip();
+  private prices = new PriceBook();
+  private toggleBar = new CategoryToggleBar((c) => this.toggleCategory(c));
+
+  // Hotkey state; not persisted
+  private tagsToggledOff = false;
+  private holdHeld = false;
 
   constructor() {
     super();
@@ -37,6 +155,45 @@ export default class ItemTags extends Plugin {
       },
     } as any;
 
+    this.settings.profile = {
+      text: "Profile",
+      description: "Switch between saved sets of categories, locations, color and rules",
+      type: SettingsTypes.combobox as any,
+      options: BUILTIN_PROFILES.map((p) => p.name),
+      value: "Default",
+      callback: () => {
+        const p = this.allProfiles().find((x) => x.name === this.settings.profile.value);
+        if (p) this.applyProfile(p);
+      },
+    } as any;
+
+    this.settings.tagLanguage = {
+      text: "Tag Language",
+      description: "Language of item names to match. Auto follows the client; without a matching pack only ID and custom rules apply",
+      type: SettingsTypes.combobox as any,
+      options: ["Auto", ...getLocalePacks().map((p) => p.name)],
+      value: "Auto",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.autoAbbreviations = {
+      text: "Unique Abbreviations",
+      description: "For items without a built-in abbreviation, generate one that no other item in the category shares. Unresolved collisions are logged",
+      type: SettingsTypes.checkbox,
+      value: true,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.abbreviationLength = {
+      text: "Max Abbreviation Length",
+      description: "Longest generated abbreviation; longer allows more readable unique tags",
+      type: SettingsTypes.range as any,
+      min: 3,
+      max: 8,
+      value: 4,
+      callback: () => this.rescanSoon(),
+    } as any;
+
     this.settings.colorCheck = {
         text: "Change Color?",
         type: SettingsTypes.checkbox,
@@ -72,15 +229,371 @@ export default class ItemTags extends Plugin {
         onLoaded: () => this.rescanSoon(),
     } as any;
 
+    this.settings.theme = {
+      text: "Theme",
+      description: "Match Amount ignores every custom color and uses the amount badge colors",
+      type: SettingsTypes.combobox as any,
+      options: TAG_THEMES,
+      value: "Default",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.categoryColorsText = {
+      text: "Category Colors",
+      description: "category=#fg or category=#fg/#bg, separated by ';' (e.g. potion=#ff66cc; ore=#d9a066/#202020)",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {
+        this.reloadCategoryColors();
+        this.rescanSoon();
+      },
+      onLoaded: () => {
+        this.reloadCategoryColors();
+        this.rescanSoon();
+      },
+    } as any;
+
+    this.settings.tagStyle = {
+      text: "Tag Style",
+      description: "Text abbreviations, category icons tinted by material or gem, or both",
+      type: SettingsTypes.combobox as any,
+      options: TAG_STYLES,
+      value: "Text",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.categoryStylesText = {
+      text: "Category Styles",
+      description: "Override Tag Style per category as category=text|icon|both, separated by ';' (e.g. gem=icon; potion=both)",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {
+        this.reloadCategoryStyles();
+        this.rescanSoon();
+      },
+      onLoaded: () => {
+        this.reloadCategoryStyles();
+        this.rescanSoon();
+      },
+    } as any;
+
+    this.settings.suffixColors = {
+      text: "Color Suffixes",
+      description: "Color dose counts and (g)/(s)/(u) suffixes separately from the tag text",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    for (const c of getContainers()) {
+      this.settings[locationSetting(c)] = {
+        text: `${c.label} Tags`,
+        description: "Gear Only includes Gear, Jewelry, and Potions",
+        type: SettingsTypes.combobox as any,
+        options: CONTAINER_MODES,
+        value: c.defaultMode,
+        callback: () => this.rescanSoon(),
+      } as any;
+    }
+
+    // Replaced by the per-container settings above; migrated once on load
     this.settings.showWhere = {
       text: "Show Where",
-      description: "Gear Only includes Jewelry, Potions, and Dark Items",
       type: SettingsTypes.combobox as any,
-      options: ["Bank Only", "Bank+Bag(Gear Only)", "Bank+Bag(All)"],
-      value: "Bank+Bag(All)",
+      options: ["", ...SHOW_WHERE_OPTIONS],
+      value: "",
+      hidden: true,
+      callback: () => {},
+      onLoaded: () => this.migrateShowWhere(),
+    } as any;
+
+    this.settings.bankFilterMode = {
+      text: "Bank Filter",
+      description: "Show a tag search and category chips above the bank that dim or hide other items",
+      type: SettingsTypes.combobox as any,
+      options: ["Off", "Dim", "Hide"],
+      value: "Off",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.bankToggles = {
+      text: "Bank Category Toggles",
+      description: "Float one button per category over the bank to switch its tags on or off",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.hotkeyCycleProfile = {
+      text: "Next Profile Key",
+      description: "Switch to the next profile, e.g. Alt+P. Leave empty to disable",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {},
+    } as any;
+
+    this.settings.hotkeyToggleAll = {
+      text: "Toggle Tags Key",
+      description: "Hide or show all tags, e.g. Alt+T. Leave empty to disable",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {},
+    } as any;
+
+    this.settings.hotkeyHold = {
+      text: "Hold to Show Key",
+      description: "When set, tags stay hidden and appear only while this key is held, e.g. Alt",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => this.updateVisibility(),
+      onLoaded: () => this.updateVisibility(),
+    } as any;
+
+    this.settings.doseSummary = {
+      text: "Dose Summary",
+      description: "Panel with total doses per potion type across bag and bank",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.compositionSummary = {
+      text: "Category Summary",
+      description: "Panel with item types and totals per category; click a row to highlight its items",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.compositionWhere = {
+      text: "Summary Covers",
+      type: SettingsTypes.combobox as any,
+      options: ["Bag+Bank", "Bag", "Bank"],
+      value: "Bag+Bank",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.changeLog = {
+      text: "Change Log",
+      description: "Panel logging tagged items gained or lost in the bag and bank this session, e.g. +3 Pine logs",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.changeFlash = {
+      text: "Flash Changed Slots",
+      description: "Briefly flash slots whose tagged items were gained or lost while the Change Log is on",
+      type: SettingsTypes.checkbox,
+      value: true,
+      callback: () => {},
+    } as any;
+
+    this.settings.exportChangesCsv = {
+      text: "Export Change Log (CSV)",
+      type: SettingsTypes.button as any,
+      value: "Download",
+      callback: () => downloadText("itemtags-changes.csv", this.changeLog.toCSV(), "text/csv"),
+    } as any;
+
+    this.settings.exportChangesJson = {
+      text: "Export Change Log (JSON)",
+      type: SettingsTypes.button as any,
+      value: "Download",
+      callback: () => downloadText("itemtags-changes.json", this.changeLog.toJSON()),
+    } as any;
+
+    this.settings.clearChangeLog = {
+      text: "Clear Change Log",
+      type: SettingsTypes.button as any,
+      value: "Clear",
+      callback: () => {
+        this.changeLog.clear();
+        this.rescanSoon();
+      },
+    } as any;
+
+    this.settings.mergeHints = {
+      text: "Merge Hints",
+      description: "Outline partial-dose potions that could be poured together",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.fullDoseCount = {
+      text: "Full Dose Count",
+      description: "Doses in a full potion; anything below counts as partial",
+      type: SettingsTypes.range as any,
+      min: 2,
+      max: 10,
+      value: 4,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.shopOwned = {
+      text: "Shop: Owned Count",
+      description: "In shops, show how many of each item you already have in bank and bag",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.shopOwnedAnchor = {
+      text: "Owned Count Corner",
+      type: SettingsTypes.combobox as any,
+      options: BADGE_ANCHORS,
+      value: "Bottom Right",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.shopHighlightTagged = {
+      text: "Shop: Highlight Tagged",
+      description: "In shops, outline items that the active profile tags, even when shop tags are off",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.badgeAnchor = {
+      text: "Tag Corner",
+      type: SettingsTypes.combobox as any,
+      options: BADGE_ANCHORS,
+      value: "Bottom Left",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.badgeScale = {
+      text: "Tag Size %",
+      description: "Font size relative to the amount badge",
+      type: SettingsTypes.range as any,
+      min: 50,
+      max: 200,
+      value: 100,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.badgeMaxWidth = {
+      text: "Tag Max Width %",
+      description: "Longer tags are cut off with an ellipsis; 100 allows the full slot width",
+      type: SettingsTypes.range as any,
+      min: 30,
+      max: 100,
+      value: 100,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.badgeOpacity = {
+      text: "Background Opacity %",
+      type: SettingsTypes.range as any,
+      min: 0,
+      max: 100,
+      value: 100,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.secondBadge = {
+      text: "Second Tag",
+      description: "Show extra information in another corner. Suffix moves doses and (g)/(s)/(u) there; Level shows the gear's level requirement",
+      type: SettingsTypes.combobox as any,
+      options: ["None", "Suffix", "Category", "Level"],
+      value: "None",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.secondBadgeAnchor = {
+      text: "Second Tag Corner",
+      type: SettingsTypes.combobox as any,
+      options: BADGE_ANCHORS,
+      value: "Bottom Right",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.valueMode = {
+      text: "Value Overlay",
+      description: "Show each stack's value from the imported price table or prices seen in shops",
+      type: SettingsTypes.combobox as any,
+      options: ["Off", "Stack Total", "Per Item"],
+      value: "Off",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.valueAnchor = {
+      text: "Value Corner",
+      type: SettingsTypes.combobox as any,
+      options: BADGE_ANCHORS,
+      value: "Top Right",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.valueSource = {
+      text: "Price Source",
+      type: SettingsTypes.combobox as any,
+      options: Object.keys(PRICE_SOURCES),
+      value: "Imported, then Shop",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.valueThreshold = {
+      text: "High Value Threshold",
+      description: "Highlight stacks worth at least this much, e.g. 50k or 1.5m; empty turns it off",
+      type: SettingsTypes.text as any,
+      value: "",
       callback: () => this.rescanSoon(),
     } as any;
 
+    this.settings.priceJson = {
+      text: "Price Table JSON",
+      description: "Paste { \"Item Name\": price, \"#id\": price } or [{ id, name, price }] and press Import",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {},
+    } as any;
+
+    this.settings.importPrices = {
+      text: "Import Prices",
+      type: SettingsTypes.button as any,
+      value: "Import",
+      callback: () => this.importPriceText(String(this.settings.priceJson.value || "")),
+    } as any;
+
+    this.settings.importPricesFile = {
+      text: "Import Prices from File",
+      type: SettingsTypes.button as any,
+      value: "Open",
+      callback: () => pickFile((text) => this.importPriceText(text)),
+    } as any;
+
+    this.settings.clearShopPrices = {
+      text: "Forget Shop Prices",
+      type: SettingsTypes.button as any,
+      value: "Clear",
+      callback: () => {
+        this.prices.replace("shop", new Map());
+        this.settings.shopPricesData.value = "";
+        this.rescanSoon();
+      },
+    } as any;
+
+    // Persisted price tables; edited through the buttons above and by visiting shops
+    this.settings.pricesData = {
+      text: "Imported Prices",
+      type: SettingsTypes.text as any,
+      value: "",
+      hidden: true,
+      callback: () => {},
+      onLoaded: () => this.loadPrices("imported", this.settings.pricesData.value),
+    } as any;
+
+    this.settings.shopPricesData = {
+      text: "Shop Prices",
+      type: SettingsTypes.text as any,
+      value: "",
+      hidden: true,
+      callback: () => {},
+      onLoaded: () => this.loadPrices("shop", this.settings.shopPricesData.value),
+    } as any;
+
     this.settings.showRoots = {
       text: "Roots",
       description: "Show Root tags",
@@ -162,13 +675,258 @@ export default class ItemTags extends Plugin {
       callback: () => this.rescanSoon(),
     } as any;
 
+    this.settings.showGear = {
+      text: "Gear",
+      description: "Show tier and slot tags on weapons and armor, like Iron Scim or Cela Helm",
+      type: SettingsTypes.checkbox,
+      value: true,
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    // Replaced by "Gear" above; migrated once on load
     this.settings.showDarkItems = {
       text: "Dark Items",
-      description: "Display overlay for items that are difficult to see on dark mode, like Coronium Gear and Damogui's Staff",
+      type: SettingsTypes.text as any,
+      value: "",
+      hidden: true,
+      callback: () => {},
+      onLoaded: () => this.migrateShowDarkItems(),
+    } as any;
+
+    this.settings.customRules = {
+      text: "Custom Rules",
+      description: "Check your own rules before the built-in categories",
       type: SettingsTypes.checkbox,
       value: true,
       callback: () => this.rescanSoon(),
     } as any;
+
+    this.settings.customRulesText = {
+      text: "Rules",
+      description: "One per line or separated by ';' as 'matcher = Tag'. Matchers: exact name, wildcard (*dagger), /regex/, #id or #from-to",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {
+        this.reloadUserRules();
+        this.rescanSoon();
+      },
+      onLoaded: () => {
+        this.reloadUserRules();
+        this.rescanSoon();
+      },
+    } as any;
+
+    this.settings.itemListsText = {
+      text: "Item Lists",
+      description: "One per line or separated by ';' as 'name: border|badge|icon [#color] [label]', e.g. 'Quest: border #ffcc00; Keep: badge #4caf50 K'",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {
+        this.reloadItemLists();
+        this.rescanSoon();
+      },
+      onLoaded: () => {
+        this.reloadItemLists();
+        this.rescanSoon();
+      },
+    } as any;
+
+    this.settings.activeList = {
+      text: "Edit List",
+      description: "List that Edit Mode clicks and Add Items change",
+      type: SettingsTypes.combobox as any,
+      options: [],
+      value: "",
+      callback: () => {},
+    } as any;
+
+    this.settings.listEditMode = {
+      text: "List Edit Mode",
+      description: "Clicking a slot adds its item to the Edit List, or removes it. Clicks do not reach the game while on",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => {},
+    } as any;
+
+    this.settings.listBadgeAnchor = {
+      text: "List Marker Corner",
+      type: SettingsTypes.combobox as any,
+      options: BADGE_ANCHORS,
+      value: "Top Right",
+      callback: () => this.rescanSoon(),
+    } as any;
+
+    this.settings.listPaste = {
+      text: "List Items",
+      description: "Names or IDs separated by new lines, ';' or ','; press Add Items to put them on the Edit List",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {},
+    } as any;
+
+    this.settings.addListItems = {
+      text: "Add Items",
+      type: SettingsTypes.button as any,
+      value: "Add",
+      callback: () => this.addPastedListItems(),
+    } as any;
+
+    this.settings.clearList = {
+      text: "Clear Edit List",
+      type: SettingsTypes.button as any,
+      value: "Clear",
+      callback: () => this.clearActiveList(),
+    } as any;
+
+    // Persisted list members; edited through Edit Mode and the buttons above
+    this.settings.listMembersData = {
+      text: "List Members",
+      type: SettingsTypes.text as any,
+      value: "",
+      hidden: true,
+      callback: () => {},
+      onLoaded: () => {
+        this.listMembers = parseMembers(String(this.settings.listMembersData.value || ""));
+        this.rescanSoon();
+      },
+    } as any;
+
+    this.settings.tagTooltip = {
+      text: "Tag Tooltip",
+      description: "On hover, show the item's full name, its category and the rule that produced its tag",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.tooltip.hide(),
+    } as any;
+
+    this.settings.tooltipModifier = {
+      text: "Tooltip Key",
+      description: "Only show the tooltip while this key is held",
+      type: SettingsTypes.combobox as any,
+      options: TOOLTIP_MODIFIERS,
+      value: "None",
+      callback: () => this.tooltip.hide(),
+    } as any;
+
+    this.settings.chainHighlight = {
+      text: "Crafting Chains",
+      description: "Hovering an item outlines the bag and bank items it is made from or into, e.g. Coronium Ore with its bars and gear",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.clearChainHighlight(),
+    } as any;
+
+    this.settings.chainModifier = {
+      text: "Crafting Chain Key",
+      description: "Only highlight chains while this key is held",
+      type: SettingsTypes.combobox as any,
+      options: TOOLTIP_MODIFIERS,
+      value: "None",
+      callback: () => this.clearChainHighlight(),
+    } as any;
+
+    this.settings.recipesText = {
+      text: "Extra Recipes",
+      description: "Chains added to the built-in ones, one per line or separated by ';', e.g. '{m} ore > {m} bar > gear:{m} *'",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => this.reloadRecipes(),
+      onLoaded: () => this.reloadRecipes(),
+    } as any;
+
+    this.settings.debugHover = {
+      text: "Log Hovered Item",
+      description: "Log the definition ID and resolved name of hovered slots, for writing #id rules",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => {},
+    } as any;
+
+    this.settings.hookDiagnostics = {
+      text: "Hook Diagnostics",
+      description: "Panel listing which game hooks were found, which fall back to watching the page, and which failed",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.updateDiagnostics(),
+    } as any;
+
+    this.settings.retryHooks = {
+      text: "Retry Game Hooks",
+      description: "Check every hook path again, e.g. after a client update",
+      type: SettingsTypes.button as any,
+      value: "Retry",
+      callback: () => this.rebindHooks(),
+    } as any;
+
+    this.settings.profileScans = {
+      text: "Log Scan Times",
+      description: "Periodically log how long tag rescans take",
+      type: SettingsTypes.checkbox,
+      value: false,
+      callback: () => this.profiler.reset(),
+    } as any;
+
+    this.settings.profileName = {
+      text: "Profile Name",
+      description: "Name used by Save Profile; saving over an existing name replaces it",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {},
+    } as any;
+
+    this.settings.saveProfile = {
+      text: "Save Profile",
+      type: SettingsTypes.button as any,
+      value: "Save",
+      callback: () => this.saveCurrentProfile(),
+    } as any;
+
+    this.settings.profileJson = {
+      text: "Profile JSON",
+      description: "Paste shared profiles here and press Import, or press Export to fill it",
+      type: SettingsTypes.text as any,
+      value: "",
+      callback: () => {},
+    } as any;
+
+    this.settings.exportProfile = {
+      text: "Export Profile",
+      description: "Fill Profile JSON with the active profile and copy it to the clipboard",
+      type: SettingsTypes.button as any,
+      value: "Export",
+      callback: () => this.exportActiveProfile(false),
+    } as any;
+
+    this.settings.exportProfileFile = {
+      text: "Export Profiles to File",
+      type: SettingsTypes.button as any,
+      value: "Download",
+      callback: () => this.exportActiveProfile(true),
+    } as any;
+
+    this.settings.importProfile = {
+      text: "Import Profile",
+      type: SettingsTypes.button as any,
+      value: "Import",
+      callback: () => this.importProfileText(String(this.settings.profileJson.value || "")),
+    } as any;
+
+    this.settings.importProfileFile = {
+      text: "Import Profiles from File",
+      type: SettingsTypes.button as any,
+      value: "Open",
+      callback: () => this.importProfileFile(),
+    } as any;
+
+    // Persisted profile store; edited through the buttons above
+    this.settings.profilesData = {
+      text: "Saved Profiles",
+      type: SettingsTypes.text as any,
+      value: "",
+      hidden: true,
+      callback: () => {},
+      onLoaded: () => this.refreshProfileOptions(),
+    } as any;
   }
 
   init(): void {
@@ -182,9 +940,17 @@ export default class ItemTags extends Plugin {
     }
     this.started = true;
     this.log("ItemTags starting");
+    (window as any).ItemTagsAPI = this.api;
     this.injectStyle();
     this.attachGameHookSubscriptions();
     this.attachObserverFallback();
+    this.attachDebugHover();
+    this.attachTooltip();
+    this.attachChainHighlight();
+    this.attachHotkeys();
+    this.attachListEditing();
+    this.updateVisibility();
+    this.unsubscribers.push(onProvidersChanged(() => this.rescanSoon()));
     this.rescanSoon();
   }
 
@@ -196,6 +962,10 @@ export default class ItemTags extends Plugin {
       try { u(); } catch {}
     }
 
+    // Withdraw the public API and the providers registered through it
+    if ((window as any).ItemTagsAPI === this.api) delete (window as any).ItemTagsAPI;
+    clearProviders();
+
     // Detach observer
     if (this.observer) {
       this.observer.disconnect();
@@ -218,6 +988,38 @@ export default class ItemTags extends Plugin {
     document
       .querySelectorAll(".hs-inventory-item__tag[data-hs-tag-overlay]")
       .forEach((el) => el.remove());
+
+    this.dosePanel.hide();
+    this.diagnosticsPanel.hide();
+    this.compositionPanel.hide();
+    this.compositionSelection = null;
+    this.changePanel.hide();
+    this.snapshots.clear();
+    this.flashTimers.forEach((timer) => window.clearTimeout(timer));
+    this.flashTimers.clear();
+    document
+      .querySelectorAll("[data-hs-tag-flash]")
+      .forEach((el) => el.removeAttribute("data-hs-tag-flash"));
+    this.tooltip.hide();
+    this.toggleBar.unmount();
+    document
+      .querySelectorAll("[data-hs-tag-list-border]")
+      .forEach((el) => el.removeAttribute("data-hs-tag-list-border"));
+    document
+      .querySelectorAll("[data-hs-tag-shop-tagged]")
+      .forEach((el) => el.removeAttribute("data-hs-tag-shop-tagged"));
+    this.clearChainHighlight();
+    document
+      .querySelectorAll("[data-hs-tag-highlight]")
+      .forEach((el) => el.removeAttribute("data-hs-tag-highlight"));
+    document.body.removeAttribute("data-hs-tags-hidden");
+
+    // Remove bank filter and its marks
+    this.bankFilter.unmount();
+    document
+      .querySelectorAll("[data-hs-tag-filtered]")
+      .forEach((el) => el.removeAttribute("data-hs-tag-filtered"));
+    this.bankFiltering = false;
   }
 
   // ---------- Styling ----------
@@ -225,97 +1027,86 @@ export default class ItemTags extends Plugin {
     if (this.styleEl) this.styleEl.remove();
     this.styleEl = document.createElement("style");
     this.styleEl.setAttribute("data-item-identifier-style", "true");
-    this.styleEl.textContent = styles;
+    this.styleEl.textContent = `${styles}\n${iconStyles}`;
     document.head.appendChild(this.styleEl);
   }
 
   // ---------- Event wiring ----------
   private attachGameHookSubscriptions() {
-    const em = (this as any).gameHooks?.EntityManager?.Instance;
-    if (!em) return;
-
-    const mainPlayer = em?.MainPlayer;
-
-    // Inventory changes (try multiple shapes inspired by examples)
-    const inv = mainPlayer?.Inventory;
-    if (inv?.OnInventoryChangeListener?.add) {
-      const cb = this.rescanSoon.bind(this);
-      inv.OnInventoryChangeListener.add(cb);
-      this.unsubscribers.push(() => inv.OnInventoryChangeListener?.remove?.(cb));
-    } else {
-      this.trySubscribe(inv, this.rescanSoon.bind(this));
-    }
-
-    // Bank items changes
-    const bankStorage = (mainPlayer as any)?.BankStorageItems;
-    if (bankStorage?.OnInventoryChangeListener?.add) {
-      const cb = this.rescanSoon.bind(this);
-      bankStorage.OnInventoryChangeListener.add(cb);
-      this.unsubscribers.push(() => bankStorage.OnInventoryChangeListener?.remove?.(cb));
-    }
-    if (bankStorage?.OnReorganizedItemsListener?.add) {
-      const cb2 = this.rescanSoon.bind(this);
-      bankStorage.OnReorganizedItemsListener.add(cb2);
-      this.unsubscribers.push(() => bankStorage.OnReorganizedItemsListener?.remove?.(cb2));
-    }
-    // Fallback to older/internal bank items containers
-    this.trySubscribe(mainPlayer?._bankItems, this.rescanSoon.bind(this));
+    this.hooks.bind();
+    this.unsubscribers.push(() => this.hooks.unbind());
+    this.unsubscribers.push(this.hooks.onChanged(() => this.updateDiagnostics()));
+    this.updateDiagnostics();
+
+    // Logging in, opening a shop or trading replaces the objects hooks sit on
+    const timer = window.setInterval(() => {
+      if (this.hooks.refresh()) this.rescanSoon();
+    }, HOOK_REFRESH_MS);
+    this.unsubscribers.push(() => window.clearInterval(timer));
+
+    // UI scale changes alter the amount font, so re-read typography
+    const onResize = () => this.rescanSoon();
+    window.addEventListener("resize", onResize);
+    this.unsubscribers.push(() => window.removeEventListener("resize", onResize));
+  }
 
-    // Shop items (when open)
-    this.trySubscribe(mainPlayer?._currentState?._shopItems, this.rescanSoon.bind(this));
+  /** Called by HighLite once the player is in the game. */
+  SocketManager_loggedIn() {
+    if (this.started) this.rebindHooks();
   }
 
-  /** Try common subscription shapes without throwing if absent. */
-  private trySubscribe(obj: any, cb: () => void) {
-    if (!obj) return;
+  private rebindHooks() {
+    if (!this.started) return;
+    this.hooks.bind();
+    this.rescanSoon();
+  }
 
-    // 1) Observable-style: obj.OnChange.Subscribe(fn) -> token ; Unsubscribe(token)
-    if (obj.OnChange?.Subscribe) {
-      const token = obj.OnChange.Subscribe(cb);
-      this.unsubscribers.push(() => obj.OnChange?.Unsubscribe?.(token));
-      return;
-    }
-    if (obj.OnItemsChanged?.Subscribe) {
-      const token = obj.OnItemsChanged.Subscribe(cb);
-      this.unsubscribers.push(() => obj.OnItemsChanged?.Unsubscribe?.(token));
+  private updateDiagnostics() {
+    if (!this.started || !this.settings.hookDiagnostics?.value) {
+      this.diagnosticsPanel.hide();
       return;
     }
+    this.diagnosticsPanel.setRows(this.hooks.rows(), "Not bound yet");
+  }
 
-    // 2) EventEmitter: obj.on('change', fn) / obj.off('change', fn)
-    if (typeof obj.on === 'function' && typeof obj.off === 'function') {
-      obj.on('change', cb);
-      this.unsubscribers.push(() => obj.off('change', cb));
-      return;
-    }
+  private onContainerChanged(container: ItemContainer, args: any[]) {
+    const slots = slotsFromPayload(args);
+    const cells = Array.from(document.querySelectorAll<HTMLElement>(cellSelector([container])));
+    this.rescanCellsSoon(slots ? cells.filter((c) => slots.has(parseInt(c.getAttribute("data-slot") || "", 10))) : cells);
+  }
 
-    // 3) addEventListener style
-    if (typeof obj.addEventListener === 'function' && typeof obj.removeEventListener === 'function') {
-      obj.addEventListener('change', cb);
-      this.unsubscribers.push(() => obj.removeEventListener('change', cb));
-      return;
-    }
-  }
-
-  /** DOM fallback if hooks are missing */
+  /**
+   * DOM fallback if hooks are missing. Watches the whole body, since tables
+   * come and go as windows open and close; changes outside them are ignored.
+   */
   private attachObserverFallback() {
-    const root = document.querySelector(
-      ".hs-item-table--inventory, .hs-item-table--bank, .hs-item-table--shop"
-    ) || document.body;
-
     this.observer = new MutationObserver((muts) => {
+      const tables = tableSelector(getContainers());
+      const cells = new Set<HTMLElement>();
+      let wholeTable = false;
       for (const m of muts) {
+        if (isOwnMutation(m)) continue;
+        const target = m.target as Element;
         if (m.type === 'childList' && (m.addedNodes.length || m.removedNodes.length)) {
-          this.rescanSoon();
-          return;
+          const cell = target.closest?.<HTMLElement>(".hs-item-table__cell");
+          if (cell) {
+            cells.add(cell);
+          } else if (target.closest?.(tables) || touchesTable(m, tables)) {
+            // Cells added or removed wholesale, e.g. a table re-render
+            wholeTable = true;
+          }
         }
         if (m.type === 'attributes' && /data-slot|class|title|data-item-name/.test(m.attributeName || '')) {
-          this.rescanSoon();
-          return;
+          const cell = target.closest?.<HTMLElement>(".hs-item-table__cell");
+          if (cell) cells.add(cell);
+          else if (target.closest?.(tables)) wholeTable = true;
         }
       }
+      if (wholeTable) this.rescanCellsSoon();
+      else if (cells.size) this.rescanCellsSoon(cells);
     });
 
-    this.observer.observe(root, {
+    this.observer.observe(document.body, {
       subtree: true,
       childList: true,
       attributes: true,
@@ -323,420 +1114,1267 @@ export default class ItemTags extends Plugin {
     });
   }
 
+  /** Logs `#id "name"` for each newly hovered slot while "Log Hovered Item" is on. */
+  private attachDebugHover() {
+    let lastCell: HTMLElement | null = null;
+    const onOver = (ev: MouseEvent) => {
+      if (!this.settings.debugHover?.value) return;
+      const cell = (ev.target as HTMLElement | null)?.closest?.<HTMLElement>(".hs-item-table__cell") ?? null;
+      if (!cell || cell === lastCell) return;
+      lastCell = cell;
+      const slotId = parseInt(cell.getAttribute("data-slot") || "", 10);
+      if (!Number.isFinite(slotId)) return;
+      const item = this.resolveItemFromCell(cell, slotId);
+      if (!item) return;
+      const id = this.resolveItemId(item);
+      this.log(`ItemTags slot ${slotId}: #${id ?? "?"} "${this.resolveItemName(item, id) ?? ""}"`);
+    };
+    document.addEventListener("mouseover", onOver, true);
+    this.unsubscribers.push(() => document.removeEventListener("mouseover", onOver, true));
+  }
+
+  /** Badges ignore the pointer, so the tooltip follows the hovered cell instead. */
+  private attachTooltip() {
+    let hovered: HTMLElement | null = null;
+    const update = (ev: MouseEvent | KeyboardEvent) => {
+      const state = hovered?.isConnected ? this.cellState.get(hovered) : undefined;
+      const modifier = String(this.settings.tooltipModifier?.value || "None");
+      const held = modifier === "None" || modifierHeld(ev, modifier);
+      if (!this.settings.tagTooltip?.value || !hovered || !state?.tag || !held) return this.tooltip.hide();
+      this.tooltip.show(hovered, state.name, state.tag);
+    };
+    const onOver = (ev: MouseEvent) => {
+      const cell = (ev.target as HTMLElement | null)?.closest?.<HTMLElement>(".hs-item-table__cell") ?? null;
+      if (cell === hovered) return;
+      hovered = cell;
+      update(ev);
+    };
+    const onKey = (ev: KeyboardEvent) => {
+      if (hovered) update(ev);
+    };
+    const onBlur = () => this.tooltip.hide();
+    document.addEventListener("mouseover", onOver, true);
+    document.addEventListener("keydown", onKey, true);
+    document.addEventListener("keyup", onKey, true);
+    window.addEventListener("blur", onBlur);
+    this.unsubscribers.push(() => {
+      document.removeEventListener("mouseover", onOver, true);
+      document.removeEventListener("keydown", onKey, true);
+      document.removeEventListener("keyup", onKey, true);
+      window.removeEventListener("blur", onBlur);
+    });
+  }
+
+  /** Outlines the hovered item's crafting chain in the bag and bank. */
+  private attachChainHighlight() {
+    let hovered: HTMLElement | null = null;
+    const update = (ev: MouseEvent | KeyboardEvent) => {
+      const modifier = String(this.settings.chainModifier?.value || "None");
+      const held = modifier === "None" || modifierHeld(ev, modifier);
+      const source = this.settings.chainHighlight?.value && held && hovered?.isConnected ? this.cellItemTag(hovered) : null;
+      const links = source ? chainLinks(this.recipes, source.name, source.tag?.category ?? null) : [];
+      if (!links.length) return this.clearChainHighlight();
+
+      document
+        .querySelectorAll<HTMLElement>(cellSelector(getContainers().filter((c) => c.id === "inventory" || c.id === "bank")))
+        .forEach((cell) => {
+          const item = cell === hovered ? null : this.cellItemTag(cell);
+          const role = cell === hovered ? "source" : item && isLinked(links, item.name, item.tag?.category ?? null) ? "related" : null;
+          if (role) cell.setAttribute("data-hs-tag-chain", role);
+          else cell.removeAttribute("data-hs-tag-chain");
+        });
+    };
+    const onOver = (ev: MouseEvent) => {
+      const cell = (ev.target as HTMLElement | null)?.closest?.<HTMLElement>(".hs-item-table__cell") ?? null;
+      if (cell === hovered) return;
+      hovered = cell;
+      update(ev);
+    };
+    const onKey = (ev: KeyboardEvent) => {
+      if (hovered) update(ev);
+    };
+    const onBlur = () => this.clearChainHighlight();
+    document.addEventListener("mouseover", onOver, true);
+    document.addEventListener("keydown", onKey, true);
+    document.addEventListener("keyup", onKey, true);
+    window.addEventListener("blur", onBlur);
+    this.unsubscribers.push(() => {
+      document.removeEventListener("mouseover", onOver, true);
+      document.removeEventListener("keydown", onKey, true);
+      document.removeEventListener("keyup", onKey, true);
+      window.removeEventListener("blur", onBlur);
+    });
+  }
+
+  private clearChainHighlight() {
+    document
+      .querySelectorAll("[data-hs-tag-chain]")
+      .forEach((el) => el.removeAttribute("data-hs-tag-chain"));
+  }
+
+  private reloadRecipes() {
+    const { chains, errors } = parseRecipes(`${DEFAULT_RECIPES}\n${String(this.settings.recipesText?.value ?? "")}`);
+    this.recipes = chains;
+    for (const err of errors) this.log(`ItemTags recipe ignored: ${err}`);
+  }
+
+  private attachHotkeys() {
+    const binding = (key: string) => parseHotkey(String(this.settings[key]?.value || ""));
+    const onDown = (ev: KeyboardEvent) => {
+      if (isTypingTarget(ev.target)) return;
+      const hold = binding("hotkeyHold");
+      if (hold && keyMatches(ev, hold)) {
+        this.setHoldHeld(true);
+        return;
+      }
+      if (ev.repeat) return;
+      const cycle = binding("hotkeyCycleProfile");
+      const toggle = binding("hotkeyToggleAll");
+      if (cycle && matchesHotkey(ev, cycle)) {
+        ev.preventDefault();
+        this.cycleProfile();
+      } else if (toggle && matchesHotkey(ev, toggle)) {
+        ev.preventDefault();
+        this.tagsToggledOff = !this.tagsToggledOff;
+        this.updateVisibility();
+      }
+    };
+    const onUp = (ev: KeyboardEvent) => {
+      const hold = binding("hotkeyHold");
+      if (hold && keyMatches(ev, hold)) this.setHoldHeld(false);
+    };
+    const onBlur = () => this.setHoldHeld(false);
+    document.addEventListener("keydown", onDown, true);
+    document.addEventListener("keyup", onUp, true);
+    window.addEventListener("blur", onBlur);
+    this.unsubscribers.push(() => {
+      document.removeEventListener("keydown", onDown, true);
+      document.removeEventListener("keyup", onUp, true);
+      window.removeEventListener("blur", onBlur);
+    });
+  }
+
+  private setHoldHeld(held: boolean) {
+    if (this.holdHeld === held) return;
+    this.holdHeld = held;
+    this.updateVisibility();
+  }
+
+  /** Hides the tag badges through base.css while toggled off, or until the hold key is pressed. */
+  private updateVisibility() {
+    const holdBound = !!parseHotkey(String(this.settings.hotkeyHold?.value || ""));
+    const hidden = this.started && !this.holdHeld && (this.tagsToggledOff || holdBound);
+    document.body.toggleAttribute("data-hs-tags-hidden", hidden);
+  }
+
+  private cycleProfile() {
+    const profiles = this.allProfiles();
+    if (!profiles.length) return;
+    const i = profiles.findIndex((p) => p.name === this.settings.profile.value);
+    const next = profiles[(i + 1) % profiles.length];
+    this.applyProfile(next);
+    this.log(`ItemTags profile: ${next.name}`);
+  }
+
+  /** Full rescan: settings changed, so cached tags and rendered badges are stale. */
   private rescanSoon() {
-    if (this.rafId) cancelAnimationFrame(this.rafId);
-    this.rafId = requestAnimationFrame(() => this.rescan());
+    this.pendingFull = true;
+    this.scheduleScan();
   }
 
-  // ---------- Core logic ----------
-  private rescan() {
+  /** Re-check the given cells, or every cell when omitted; unchanged cells are skipped. */
+  private rescanCellsSoon(cells?: Iterable<HTMLElement>) {
+    if (!cells) this.pendingAll = true;
+    else for (const c of cells) this.dirtyCells.add(c);
+    this.scheduleScan();
+  }
+
+  private scheduleScan() {
+    if (this.rafId) return;
+    this.rafId = requestAnimationFrame(() => {
+      this.rafId = null;
+      this.flushScan();
+    });
+  }
+
+  private flushScan() {
     if (!this.settings.enable.value) return;
+    const t0 = performance.now();
+    const full = this.pendingFull;
+    // New shop prices change values in every container, not just the shop
+    const pricesChanged = this.captureShopPrices();
+    const dirty = this.pendingFull || this.pendingAll || pricesChanged ? null : [...this.dirtyCells];
+    this.pendingFull = this.pendingAll = false;
+    this.dirtyCells.clear();
+
+    let count = 0;
+    if (full) this.invalidateCaches();
+    if (dirty) {
+      for (const cell of dirty) {
+        if (!cell.isConnected) continue;
+        this.applyTag(cell);
+        count++;
+      }
+    } else {
+      count = this.rescan();
+    }
 
-    const selectors = [
-      ".hs-item-table--inventory .hs-item-table__cell",
-      ".hs-item-table--bank .hs-item-table__cell",
-      ".hs-item-table--shop .hs-item-table__cell",
-    ];
-    document
-      .querySelectorAll<HTMLElement>(selectors.join(","))
-      .forEach((el) => this.applyTag(el));
+    this.updateBankFilter();
+    this.updateToggleBar();
+    this.updateDoses();
+    this.updateComposition();
+    this.updateChangeLog();
+    this.updateShopOverlay();
+    this.api.emitUpdated({ full });
+
+    if (this.settings.profileScans?.value) {
+      this.profiler.record(full ? "full" : "incremental", count, performance.now() - t0);
+    }
   }
 
-  private applyTag(cell: HTMLElement) {
-    try {
-      const slotIdStr = cell.getAttribute("data-slot");
-      if (!slotIdStr) return this.removeBadge(cell);
-      const slotId = parseInt(slotIdStr, 10);
+  // ---------- Bank filter ----------
+  private updateBankFilter() {
+    const mode = String(this.settings.bankFilterMode?.value || "Off");
+    const table = document.querySelector<HTMLElement>(".hs-item-table--bank");
+    if (mode === "Off" || !table) {
+      this.bankFilter.unmount();
+      if (mode === "Off") this.bankFilter.clear();
+      this.applyBankFilter();
+      return;
+    }
+    const categories: CategoryId[] = [...this.enabledCategories()];
+    if (this.settings.customRules?.value && this.userRules.length) categories.push("custom");
+    categories.push(...getProviders().map((p) => p.id));
+    this.bankFilter.mount(table, categories);
+    this.applyBankFilter();
+  }
 
-      const item = this.resolveItemFromCell(cell, slotId);
-      if (!item) return this.removeBadge(cell);
+  private updateToggleBar() {
+    const table = document.querySelector<HTMLElement>(".hs-item-table--bank");
+    if (!this.settings.bankToggles?.value || !table) return this.toggleBar.unmount();
+    this.toggleBar.mount(table, this.enabledCategories(), TAG_CATEGORIES);
+  }
 
-      const name = this.resolveItemName(item);
-      if (!name) return this.removeBadge(cell);
+  private toggleCategory(category: TagCategory) {
+    const setting = this.settings[CATEGORY_SETTINGS[category]];
+    setting.value = !setting.value;
+    this.rescanSoon();
+  }
 
-      const mode: string = (this.settings as any).showWhere?.value || "Bank+Bag(All)";
-      const inInventory = !!cell.closest(".hs-item-table--inventory");
-      const inShop = !!cell.closest(".hs-item-table--shop");
-      if (mode === "Bank Only" && (inInventory || inShop)) {
-        return this.removeBadge(cell);
+  /** Marks bank cells that do not match the filter; CSS in base.css dims or hides them. */
+  private applyBankFilter() {
+    const mode = String(this.settings.bankFilterMode?.value || "Off").toLowerCase();
+    if (mode === "off" || !this.bankFilter.active) {
+      // Only the switch from filtering to not filtering has marks to clear
+      if (this.bankFiltering) {
+        document.querySelectorAll("[data-hs-tag-filtered]").forEach((el) => el.removeAttribute("data-hs-tag-filtered"));
+        this.bankFiltering = false;
       }
-      let allowed: Set<string> | undefined;
-      if (mode === "Bank+Bag(Gear Only)" && (inInventory || inShop)) {
-        allowed = new Set(["dark", "jewelry", "potion"]);
+      return;
+    }
+    this.bankFiltering = true;
+    document.querySelectorAll<HTMLElement>(".hs-item-table--bank .hs-item-table__cell").forEach((cell) => {
+      const hidden = !this.bankFilter.matches(this.cellState.get(cell)?.tag ?? null);
+      if (hidden) cell.setAttribute("data-hs-tag-filtered", mode);
+      else cell.removeAttribute("data-hs-tag-filtered");
+    });
+  }
+
+  // ---------- Potion doses ----------
+  private updateDoses() {
+    const showPanel = !!this.settings.doseSummary?.value;
+    const showHints = !!this.settings.mergeHints?.value;
+    if (!showPanel) this.dosePanel.hide();
+    if (!showHints) this.clearMergeHints();
+    if (!showPanel && !showHints) return;
+
+    const fullDose = Math.max(1, Number(this.settings.fullDoseCount?.value ?? 4));
+    const summary = summarizeDoses(this.doseEntries(), fullDose, this.currentDeriveOptions());
+
+    if (showPanel) {
+      this.dosePanel.setRows(
+        summary.map((s) => [
+          s.type,
+          `${s.total} doses (bag ${s.byLocation.bag}, bank ${s.byLocation.bank})${s.mergeable ? " · merge" : ""}`,
+        ]),
+        "No potions",
+      );
+    }
+    if (!showHints) return;
+
+    this.mergeHintsShown = true;
+    const mergeable = new Set(summary.filter((s) => s.mergeable).map((s) => s.type));
+    document
+      .querySelectorAll<HTMLElement>(cellSelector(getContainers().filter((c) => c.id === "inventory" || c.id === "bank")))
+      .forEach((cell) => {
+        const tag = this.cellState.get(cell)?.tag;
+        const doses = tag?.category === "potion" && tag.suffix ? parseInt(tag.suffix.slice(1, -1), 10) : NaN;
+        const hint = !!tag && doses < fullDose && mergeable.has(formatTagText(tag));
+        this.getTagHost(cell)?.querySelector(PRIMARY_BADGE)?.toggleAttribute("data-hs-tag-merge", hint);
+      });
+  }
+
+  /** Only walks the page when hints were on since the last clear. */
+  private clearMergeHints() {
+    if (!this.mergeHintsShown) return;
+    this.mergeHintsShown = false;
+    document.querySelectorAll("[data-hs-tag-merge]").forEach((el) => el.removeAttribute("data-hs-tag-merge"));
+  }
+
+  private doseEntries(): DoseEntry[] {
+    const entries: DoseEntry[] = [];
+    for (const { item, location } of this.heldItems()) {
+      const name = this.resolveItemName(item, this.resolveItemId(item));
+      if (name) entries.push({ name, amount: this.resolveItemAmount(item), location });
+    }
+    return entries;
+  }
+
+  /** Every non-empty slot of the bag and the bank. */
+  private heldItems(): Array<{ item: any; location: DoseLocation }> {
+    const em = this.entityManager();
+    const held: Array<{ item: any; location: DoseLocation }> = [];
+    const sources: Array<[string, DoseLocation]> = [["inventory", "bag"], ["bank", "bank"]];
+    for (const [id, location] of sources) {
+      const items = getContainers().find((c) => c.id === id)?.items?.(em) ?? [];
+      for (const item of items) if (item) held.push({ item, location });
+    }
+    return held;
+  }
+
+  // ---------- Composition summary ----------
+  private updateComposition() {
+    if (!this.settings.compositionSummary?.value) {
+      this.compositionPanel.hide();
+      if (this.compositionSelection) {
+        this.compositionSelection = null;
+        this.applyCompositionHighlight();
       }
-      let tag = this.deriveTag(name, allowed);
-      // Fallback: if in Gear Only and jewelry allowed AND enabled, try a robust jewelry derivation
-      if (!tag && allowed && allowed.has("jewelry") && (this.settings as any).showJewelry?.value) {
-        tag = this.deriveJewelryTag(name);
+      return;
+    }
+
+    const where = String(this.settings.compositionWhere?.value || "Bag+Bank").toLowerCase();
+    const entries: CompositionEntry[] = [];
+    for (const { item, location } of this.heldItems()) {
+      if (where !== "bag+bank" && where !== location) continue;
+      const id = this.resolveItemId(item);
+      const tag = this.cachedTag(this.resolveItemName(item, id), id, false);
+      if (tag) entries.push({ tag, amount: this.resolveItemAmount(item) });
+    }
+
+    const groups = summarizeComposition(entries).map((c) => ({
+      key: compositionKey(c.category),
+      label: categoryName(c.category),
+      value: `${c.tags.length} ${c.tags.length === 1 ? "type" : "types"} / ${formatCount(c.total)}`,
+      entries: c.tags.map((t) => ({ key: compositionKey(c.category, t.text), label: t.text, value: formatCount(t.total) })),
+    }));
+    this.compositionPanel.setGroups(groups, "Nothing tagged", (key) => {
+      this.compositionSelection = key;
+      this.applyCompositionHighlight();
+    });
+    this.applyCompositionHighlight();
+  }
+
+  /** Outlines bag and bank cells under the selected summary row, whatever their tag mode. */
+  private applyCompositionHighlight() {
+    const key = this.compositionSelection;
+    document
+      .querySelectorAll<HTMLElement>(cellSelector(getContainers().filter((c) => c.id === "inventory" || c.id === "bank")))
+      .forEach((cell) => {
+        const hit = !!key && matchesCompositionKey(key, this.cellItemTag(cell)?.tag ?? null);
+        cell.toggleAttribute("data-hs-tag-highlight", hit);
+      });
+  }
+
+  /** The cell's item and its tag with every container mode set to All. */
+  private cellItemTag(cell: HTMLElement): { name: string | null; tag: TagResult | null } | null {
+    const slotId = parseInt(cell.getAttribute("data-slot") || "", 10);
+    const item = Number.isFinite(slotId) ? this.resolveItemFromCell(cell, slotId) : null;
+    if (!item) return null;
+    const id = this.resolveItemId(item);
+    const name = this.resolveItemName(item, id);
+    return { name, tag: this.cachedTag(name, id, false) };
+  }
+
+  // ---------- Change log ----------
+  /** Diffs bag and bank against the previous scan; the first scan only records a baseline. */
+  private updateChangeLog() {
+    if (!this.settings.changeLog?.value) {
+      this.snapshots.clear();
+      this.changePanel.hide();
+      return;
+    }
+
+    const em = this.entityManager();
+    const sources: Array<[string, DoseLocation]> = [["inventory", "bag"], ["bank", "bank"]];
+    for (const [containerId, location] of sources) {
+      const container = getContainers().find((c) => c.id === containerId);
+      const items = container?.items?.(em);
+      // A closed or unloaded container keeps its last snapshot rather than logging everything as lost
+      if (!container || !items) continue;
+
+      const after: ContainerSnapshot = Array.from(items, (item) => {
+        if (!item) return null;
+        const id = this.resolveItemId(item);
+        return { id, name: this.resolveItemName(item, id), amount: this.resolveItemAmount(item) };
+      });
+      const before = this.snapshots.get(location);
+      this.snapshots.set(location, after);
+      if (!before) continue;
+
+      const { items: changes, slots } = diffSnapshots(before, after);
+      for (const change of changes) {
+        const tag = this.cachedTag(change.name, change.id, false);
+        if (!tag) continue;
+        this.changeLog.add({
+          time: Date.now(),
+          location,
+          category: categoryName(tag.category),
+          name: change.name ?? `#${change.id}`,
+          tag: formatTag(tag),
+          delta: change.delta,
+        });
       }
-      if (!tag) return this.removeBadge(cell);
+      if (this.settings.changeFlash?.value) this.flashSlots(container, slots);
+    }
+
+    this.changePanel.setRows(
+      this.changeLog
+        .list()
+        .map((e) => [formatChange(e), `${e.tag} · ${e.location === "bag" ? "Bag" : "Bank"} · ${new Date(e.time).toLocaleTimeString()}`]),
+      "No changes yet",
+    );
+  }
+
+  /** Marks tag hosts for the flash animation in base.css, then clears the mark. */
+  private flashSlots(container: ItemContainer, slots: SlotChange[]) {
+    const tagged = slots.filter((s) => this.cachedTag(s.name, s.id, false));
+    if (!tagged.length) return;
+    const cells = document.querySelectorAll<HTMLElement>(cellSelector([container]));
+    for (const change of tagged) {
+      const cell = Array.from(cells).find((c) => c.getAttribute("data-slot") === String(change.slot));
+      const host = cell ? this.getTagHost(cell) : null;
+      if (!host) continue;
+      // Restart the animation when the slot changes again mid-flash
+      window.clearTimeout(this.flashTimers.get(host));
+      host.removeAttribute("data-hs-tag-flash");
+      void host.offsetWidth;
+      host.setAttribute("data-hs-tag-flash", change.delta > 0 ? "gain" : "loss");
+      this.flashTimers.set(
+        host,
+        window.setTimeout(() => {
+          this.flashTimers.delete(host);
+          host.removeAttribute("data-hs-tag-flash");
+        }, FLASH_MS),
+      );
+    }
+  }
+
+  // ---------- Shop overlay ----------
+  /** Owned counts and tagged-item outlines on shop cells, independent of the shop's tag mode. */
+  private updateShopOverlay() {
+    const showOwned = !!this.settings.shopOwned?.value;
+    const highlight = !!this.settings.shopHighlightTagged?.value;
+    const cells = document.querySelectorAll<HTMLElement>(cellSelector(getContainers().filter((c) => c.id === "shop")));
+    if (!cells.length) return;
 
+    const owned = showOwned ? this.ownedCounts() : null;
+    cells.forEach((cell) => {
       const host = this.getTagHost(cell);
       if (!host) return;
+      const slotId = parseInt(cell.getAttribute("data-slot") || "", 10);
+      const item = Number.isFinite(slotId) ? this.resolveItemFromCell(cell, slotId) : null;
+      const id = item ? this.resolveItemId(item) : null;
+      const name = item ? this.resolveItemName(item, id) : null;
 
-      let badge = host.querySelector<HTMLElement>(":scope > .hs-inventory-item__tag[data-hs-tag-overlay]");
-      if (!badge) {
-        badge = document.createElement("div");
-        badge.className = "hs-inventory-item__tag hs-small-text hs-normal-weight-text";
-        badge.setAttribute("data-hs-tag-overlay", "true");
-        // Ensure host can position absolutely-positioned children
-        try {
-          const cs = getComputedStyle(host);
-          if (cs.position === "static") {
-            (host as HTMLElement).style.position = "relative";
-          }
-        } catch {}
-        host.appendChild(badge);
+      host.toggleAttribute("data-hs-tag-shop-tagged", highlight && !!item && !!this.cachedTag(name, id, false));
+
+      const count = (owned && item && (owned.get(`#${id}`) ?? owned.get(name?.toLowerCase() ?? ""))) || 0;
+      if (!count) {
+        host.querySelector(OWNED_BADGE)?.remove();
+        return;
       }
-      // Mirror amount typography so font size and face match without copying its position
+      const badge = this.ensureBadge(host, "owned");
       this.syncBadgeTypography(host, badge);
-      // Apply configured color for the tag text without affecting amount styling
-      this.applyTagColor(badge);
-      const displayTag = this.formatTag(tag);
-      if (badge.textContent !== displayTag) badge.textContent = displayTag;
+      this.applyBadgeLayout(badge, this.settings.shopOwnedAnchor?.value);
+      this.renderBadgeContent(badge, "owned", formatValue(count), null);
+    });
+  }
+
+  /** Amount held in bag and bank, under both `#id` and the lower-cased name. */
+  private ownedCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const { item } of this.heldItems()) {
+      const id = this.resolveItemId(item);
+      const name = this.resolveItemName(item, id);
+      const amount = this.resolveItemAmount(item);
+      for (const key of [id != null ? `#${id}` : null, name?.toLowerCase() ?? null]) {
+        if (key) counts.set(key, (counts.get(key) ?? 0) + amount);
+      }
+    }
+    return counts;
+  }
+
+  private invalidateCaches() {
+    this.cellState = new WeakMap();
+    this.tagCache.clear();
+    this.typographyCache = new WeakMap();
+    this.deriveOptions = null;
+  }
+
+  // ---------- Core logic ----------
+  /** Applies tags to every cell of the active containers; returns the number of cells visited. */
+  private rescan(): number {
+    if (!this.settings.enable.value) return 0;
+
+    let count = 0;
+    const active = getContainers().filter((c) => this.locationMode(c) !== "Off");
+    if (active.length) {
+      document
+        .querySelectorAll<HTMLElement>(cellSelector(active))
+        .forEach((el) => {
+          this.applyTag(el);
+          count++;
+        });
+    }
+    // Drop badges and list borders left behind in containers that were just switched off
+    document
+      .querySelectorAll<HTMLElement>(".hs-inventory-item__tag[data-hs-tag-overlay]:not([data-hs-tag-overlay=\"owned\"]), [data-hs-tag-list-border]")
+      .forEach((el) => {
+        const cell = el.closest<HTMLElement>(".hs-item-table__cell");
+        const container = cell && containerForCell(cell);
+        if (container && this.locationMode(container) !== "Off") return;
+        if (el.hasAttribute("data-hs-tag-overlay")) el.remove();
+        else el.removeAttribute("data-hs-tag-list-border");
+      });
+    return count;
+  }
+
+  private applyTag(cell: HTMLElement) {
+    try {
+      const slotIdStr = cell.getAttribute("data-slot");
+      if (!slotIdStr) return this.clearCell(cell);
+      const slotId = parseInt(slotIdStr, 10);
+
+      const container = containerForCell(cell);
+      const mode = container ? this.locationMode(container) : "Off";
+      if (!container || mode === "Off") return this.clearCell(cell);
+
+      const item = this.resolveItemFromCell(cell, slotId);
+      if (!item) return this.clearCell(cell);
+
+      const id = this.resolveItemId(item);
+      const name = this.resolveItemName(item, id);
+      if (!name && id == null) return this.clearCell(cell);
+
+      const value = this.stackValue(id, name, this.resolveItemAmount(item));
+      const lists = listsFor(this.itemLists, this.listMembers, id, name);
+
+      // Skip cells whose item is unchanged since the last render
+      const sig = `${container.id}|${mode}|${slotId}|${id ?? ""}|${name ?? ""}|${value ? `${value.text}|${value.high}` : ""}|${lists.map((l) => l.name).join(",")}`;
+      const prev = this.cellState.get(cell);
+      if (prev && prev.sig === sig && (!prev.tag || this.getTagHost(cell)?.querySelector(PRIMARY_BADGE))) return;
+
+      const tag = this.cachedTag(name, id, mode === "Gear Only");
+      this.cellState.set(cell, { sig, tag, name });
+      if (tag) this.renderBadge(cell, tag, id, name);
+      else this.removeBadge(cell, TAG_BADGES);
+      this.renderValue(cell, value);
+      this.renderListMarkers(cell, lists);
     } catch (e) {
-      // Silent fail; never disrupt game loop
+      // Never disrupt the game loop; the count shows up in Hook Diagnostics
+      this.hooks.recordError("applyTag", e);
     }
   }
 
-  private removeBadge(cell: HTMLElement) {
-    const host = this.getTagHost(cell);
-    const badge = host?.querySelector<HTMLElement>(":scope > .hs-inventory-item__tag[data-hs-tag-overlay]");
-    if (badge) badge.remove();
+  /** Derived tags per item, shared by every cell holding the same item. */
+  private cachedTag(name: string | null, id: number | null, gearOnly: boolean): TagResult | null {
+    const key = `${gearOnly ? "g" : "a"}|${id ?? ""}|${name ?? ""}`;
+    if (this.tagCache.has(key)) return this.tagCache.get(key)!;
+
+    const tag = deriveTag(name, { ...this.currentDeriveOptions(), allowed: gearOnly ? GEAR_ONLY : undefined }, id);
+    this.tagCache.set(key, tag);
+    return tag;
   }
 
-  /** Prefer the same parent as amount badge to coexist with other plugins */
-  private getTagHost(cell: HTMLElement): HTMLElement | null {
-    const amount = cell.querySelector(".hs-inventory-item__amount");
-    if (amount && amount.parentElement) return amount.parentElement as HTMLElement;
-    const item = cell.querySelector(".hs-inventory-item") as HTMLElement | null;
-    if (item) return item;
-    return cell; // fallback
+  /** Options shared by every derivation until the next full rescan. */
+  private currentDeriveOptions(): DeriveOptions {
+    if (!this.deriveOptions) {
+      const locale = this.activeLocale();
+      // Without a pack for the client language, IDs are tagged from the English names
+      const abbreviations = this.generatedAbbreviations(locale ?? EN);
+      this.deriveOptions = {
+        enabled: this.enabledCategories(),
+        ignoreMagicalScrolls: !!this.settings.ignoreMagicalScrolls?.value,
+        userRules: this.settings.customRules?.value ? this.userRules : undefined,
+        providers: getProviders(),
+        locale,
+        idTags: this.idTagTable(locale ?? EN, abbreviations),
+        abbreviations,
+      };
+    }
+    return this.deriveOptions;
   }
 
-  private resolveItemFromCell(cell: HTMLElement, slotId: number): any | null {
-    const em = (this as any).gameHooks?.EntityManager?.Instance;
-    if (!em) return null;
+  /** Regenerated only when the locale, the scroll setting, the abbreviations or the set of known items changes. */
+  private idTagTable(locale: LocalePack, abbreviations: DeriveOptions["abbreviations"]): IdTagTable {
+    const items = this.hooks.knownItems();
+    const ignoreMagicalScrolls = !!this.settings.ignoreMagicalScrolls?.value;
+    const key = `${locale.id}|${ignoreMagicalScrolls}|${this.abbreviations?.key ?? ""}|${items.length}`;
+    if (this.idTags?.key !== key) {
+      this.idTags = { key, table: buildIdTags(items, locale, { ignoreMagicalScrolls, abbreviations }) };
+    }
+    return this.idTags.table;
+  }
 
-    if (cell.closest(".hs-item-table--inventory")) {
-      return em.MainPlayer?.Inventory?.Items?.[slotId] ?? null;
+  /** Regenerated only when the locale, the length or the set of known items changes. */
+  private generatedAbbreviations(locale: LocalePack | null): DeriveOptions["abbreviations"] {
+    if (!this.settings.autoAbbreviations?.value || !locale) return undefined;
+    const names = this.hooks.knownItemNames();
+    const maxLength = Number(this.settings.abbreviationLength?.value ?? 4);
+    const key = `${locale.id}|${maxLength}|${names.length}`;
+    if (this.abbreviations?.key !== key) {
+      const { tables, collisions } = buildAbbreviations(names, locale, maxLength);
+      this.abbreviations = { key, tables };
+      for (const c of collisions) {
+        const owners = c.reserved ? [...c.keys, "a built-in tag"] : c.keys;
+        this.log(`ItemTags abbreviation collision (${c.category}): "${c.abbr}" shared by ${owners.join(", ")}`);
+      }
     }
-    if (cell.closest(".hs-item-table--bank")) {
-      return em.MainPlayer?._bankItems?._items?.[slotId] ?? null;
+    return this.abbreviations.tables;
+  }
+
+  private renderBadge(cell: HTMLElement, tag: TagResult, id: number | null, name: string | null) {
+    const host = this.getTagHost(cell);
+    if (!host) return;
+
+    const second = String(this.settings.secondBadge?.value || "None");
+    const moveSuffix = second === "Suffix";
+    const level = second === "Level" && tag.category === "gear" ? levelRequirement(this.hooks.itemDefinition(id)) : null;
+    const style = this.tagStyle(tag.category);
+    let icon = style === "text" ? null : tagIcon(tag, name);
+    let suffix = moveSuffix ? null : tag.suffix;
+    // Icon-only potions show their doses next to the flask instead of "(3)"
+    if (style === "icon" && icon?.label && suffix) suffix = null;
+    else if (icon) icon = { ...icon, label: null };
+    this.renderBadgeSlot(host, "true", this.settings.badgeAnchor?.value, tag, style === "icon" ? "" : formatTagText(tag), suffix, icon);
+
+    if (moveSuffix && tag.suffix) {
+      this.renderBadgeSlot(host, "secondary", this.settings.secondBadgeAnchor?.value, tag, "", tag.suffix);
+    } else if (second === "Category") {
+      this.renderBadgeSlot(host, "secondary", this.settings.secondBadgeAnchor?.value, tag, categoryLabel(tag.category), null);
+    } else if (level != null) {
+      this.renderBadgeSlot(host, "secondary", this.settings.secondBadgeAnchor?.value, tag, `L${level}`, null);
+    } else {
+      host.querySelector(SECONDARY_BADGE)?.remove();
     }
-    if (cell.closest(".hs-item-table--shop")) {
-      return em.MainPlayer?._currentState?._shopItems?._items?.[slotId] ?? null;
+  }
+
+  private renderBadgeSlot(
+    host: HTMLElement,
+    slot: "true" | "secondary",
+    anchor: string,
+    tag: TagResult,
+    text: string,
+    suffix: string | null,
+    icon: TagIcon | null = null,
+  ) {
+    const badge = this.ensureBadge(host, slot);
+    // Mirror amount typography so font size and face match without copying its position
+    this.syncBadgeTypography(host, badge);
+    this.applyBadgeLayout(badge, anchor);
+    // Apply configured color for the tag text without affecting amount styling
+    this.applyTagColor(badge, tag);
+    this.renderBadgeContent(badge, tag.category, text, suffix, icon);
+  }
+
+  /** Value badges follow the layout settings but keep their own colors. */
+  private renderValue(cell: HTMLElement, value: { text: string; high: boolean } | null) {
+    const host = this.getTagHost(cell);
+    if (!host) return;
+    if (!value) {
+      host.querySelector(VALUE_BADGE)?.remove();
+      return;
     }
-    return null;
+    const badge = this.ensureBadge(host, "value");
+    this.syncBadgeTypography(host, badge);
+    this.applyBadgeLayout(badge, this.settings.valueAnchor?.value);
+    badge.toggleAttribute("data-hs-tag-high-value", value.high);
+    this.renderBadgeContent(badge, "value", value.text, null);
   }
 
-  private resolveItemName(item: any): string | null {
-    // Prefer attached definition on item
-    const def = item?._def || item?._itemDefinition || (item as any)?.def || null;
-    let raw = (def && (def._nameCapitalized || def._name)) || (item as any)._nameCapitalized || (item as any)._name || null;
+  /** Border lists outline the slot; badge and icon lists share one badge, one span each. */
+  private renderListMarkers(cell: HTMLElement, lists: ItemListDef[]) {
+    const host = this.getTagHost(cell);
+    if (!host) return;
 
-    // Fallback to global ItemDefinitionManager by id if available
-    if (!raw && (item?._id != null)) {
+    const border = lists.find((l) => l.marker === "border");
+    host.toggleAttribute("data-hs-tag-list-border", !!border);
+    setVar(host, "--hs-item-tags-list-color", border?.color ?? null);
+
+    const marks = lists.filter((l) => l.marker !== "border");
+    if (!marks.length) {
+      host.querySelector(LIST_BADGE)?.remove();
+      return;
+    }
+    const badge = this.ensureBadge(host, "list");
+    this.syncBadgeTypography(host, badge);
+    this.applyBadgeLayout(badge, this.settings.listBadgeAnchor?.value);
+    const key = marks.map((l) => `${l.name}|${l.marker}|${l.color}|${l.label}`).join(",");
+    if (badge.getAttribute("data-hs-tag-key") === key) return;
+    badge.setAttribute("data-hs-tag-key", key);
+    badge.replaceChildren(
+      ...marks.map((l) => {
+        const span = document.createElement("span");
+        span.className = "hs-inventory-item__tag-list";
+        span.setAttribute("data-marker", l.marker);
+        span.style.setProperty("--hs-item-tags-list-color", l.color);
+        span.title = l.name;
+        span.textContent = l.label;
+        return span;
+      }),
+    );
+  }
+
+  private ensureBadge(host: HTMLElement, slot: "true" | "secondary" | "value" | "list" | "owned"): HTMLElement {
+    const selector = { true: PRIMARY_BADGE, secondary: SECONDARY_BADGE, value: VALUE_BADGE, list: LIST_BADGE, owned: OWNED_BADGE }[slot];
+    let badge = host.querySelector<HTMLElement>(selector);
+    if (!badge) {
+      badge = document.createElement("div");
+      badge.className = "hs-inventory-item__tag hs-small-text hs-normal-weight-text";
+      badge.setAttribute("data-hs-tag-overlay", slot);
+      // Ensure host can position absolutely-positioned children
       try {
-        const gh: any = (document as any).highlite?.gameHooks;
-        const itemDefMgr = gh?.ItemDefinitionManager;
-        const map = itemDefMgr?._itemDefMap;
-        const def2 = map?.get ? map.get(item._id) : gh?.ItemDefMap?.ItemDefMap?.get?.(item._id);
-        raw = def2?._nameCapitalized || def2?._name || null;
+        const cs = getComputedStyle(host);
+        if (cs.position === "static") {
+          (host as HTMLElement).style.position = "relative";
+        }
       } catch {}
+      host.appendChild(badge);
     }
-    if (typeof raw === "string") return raw.trim();
-    return null;
+    return badge;
   }
 
-  private deriveTag(name: string, allowed?: Set<string>): string | null {
-    const n = name.trim();
-
-    // 0) Dark items – exact name overrides
-    if ((this as any).settings?.showDarkItems?.value) {
-      if (!(allowed && !allowed.has("dark"))) {
-      const DARK: Record<string, string> = {
-        "coronium chainmail body": "C Chain",
-        "coronium chestplate": "C Plate",
-        "coronium platelegs": "C Legs",
-        "coronium helm": "C Helm",
-        "coronium full helm": "C Fhelm",
-        "coronium gloves": "C Glove",
-        "coronium hatchet": "C Axe",
-        "coronium pickaxe": "C Pick",
-        "coronium scimitar": "C Scim",
-        "coronium longsword": "C Long",
-        "coronium battleaxe": "C Baxe",
-        "bandit mask": "B Mask",
-        "black leather gloves": "B Glove",
-        "damogui's staff": "Damo",
-      };
-      const hit = DARK[n.toLowerCase()];
-      if (hit) return hit;
+  /** Icon, text and suffix get their own spans so the suffix can be colored apart. */
+  private renderBadgeContent(badge: HTMLElement, category: string, text: string, suffix: string | null, icon: TagIcon | null = null) {
+    const key = `${category}|${text}|${suffix ?? ""}|${icon ? `${icon.glyph}|${icon.tint ?? ""}|${icon.label ?? ""}` : ""}`;
+    if (badge.getAttribute("data-hs-tag-key") === key) return;
+    badge.setAttribute("data-hs-tag-key", key);
+    badge.setAttribute("data-category", category);
+
+    badge.replaceChildren();
+    if (icon) {
+      const iconEl = document.createElement("span");
+      iconEl.className = "hs-inventory-item__tag-icon";
+      iconEl.setAttribute("data-icon", icon.glyph);
+      if (icon.tint) iconEl.setAttribute("data-tint", icon.tint);
+      badge.append(iconEl);
+      if (icon.label) {
+        const labelEl = document.createElement("span");
+        labelEl.className = "hs-inventory-item__tag-icon-label";
+        labelEl.textContent = icon.label;
+        badge.append(labelEl);
       }
     }
+    if (text) {
+      const textEl = document.createElement("span");
+      textEl.className = "hs-inventory-item__tag-text";
+      textEl.textContent = text;
+      badge.append(textEl);
+    }
+    if (suffix) {
+      const suffixEl = document.createElement("span");
+      suffixEl.className = "hs-inventory-item__tag-suffix";
+      suffixEl.setAttribute("data-suffix", suffixKind(suffix));
+      suffixEl.textContent = suffix;
+      badge.append(...(text ? [" ", suffixEl] : [suffixEl]));
+    }
+  }
 
-    // Manual overrides by category
-    const MANUAL: Record<string, Record<string, string>> = {
-      logs: { reg: 'Norm', lucky: 'Luck', pine: 'Pine', deadwood: 'Dead', cherry: 'Cher', palm: 'Palm' },
-      // Scrolls: remove Cherry override (unique); include Palm
-      scroll: { reg: 'Norm', lucky: 'Luck', pine: 'Pine', deadwood: 'Dead', palm: 'Palm' },
-      bow: { pine: 'Pine', deadwood: 'Dead', cherry: 'Cher', wooden: 'Wood', palm: 'Palm' },
-      root: { fiji: 'Fiji', maui: 'Maui', sardinian: 'Sard', grenada: 'Gren' },
-      potion: { fishing: 'Fish', stamina: 'Stam', mining: 'Mine', smithing: 'Smth', mischief: 'Crim' },
-      jewelry: {},
-      gem: {},
+  /** Corner, scale, max width and background opacity, via attributes/vars read by base.css */
+  private applyBadgeLayout(badge: HTMLElement, anchor: string) {
+    const s = this.settings;
+    badge.setAttribute("data-hs-tag-anchor", String(anchor || "Bottom Left").toLowerCase().replace(/\s+/g, "-"));
+    const scale = Number(s.badgeScale?.value ?? 100);
+    const maxWidth = Number(s.badgeMaxWidth?.value ?? 100);
+    const opacity = Number(s.badgeOpacity?.value ?? 100);
+    setVar(badge, "--hs-item-tags-scale", scale !== 100 ? String(scale / 100) : null);
+    setVar(badge, "--hs-item-tags-max-width", maxWidth < 100 ? `${maxWidth}%` : null);
+    setVar(badge, "--hs-item-tags-bg-opacity", opacity < 100 ? `${Math.max(0, opacity)}%` : null);
+  }
+
+  /** Per-category override, then the global Tag Style. */
+  private tagStyle(category: CategoryId): TagStyle {
+    return this.categoryStyles[category] ?? (String(this.settings.tagStyle?.value || "Text").toLowerCase() as TagStyle);
+  }
+
+  private reloadCategoryStyles() {
+    const { styles, errors } = parseCategoryStyles(String(this.settings.categoryStylesText?.value ?? ""));
+    this.categoryStyles = styles;
+    for (const err of errors) this.log(`ItemTags style ignored: ${err}`);
+  }
+
+  private reloadCategoryColors() {
+    const { colors, errors } = parseCategoryColors(String(this.settings.categoryColorsText?.value ?? ""));
+    this.categoryColors = colors;
+    for (const err of errors) this.log(`ItemTags color ignored: ${err}`);
+  }
+
+  // ---------- Profiles ----------
+  private savedProfiles(): TagProfile[] {
+    const raw = String(this.settings.profilesData?.value || "");
+    if (!raw) return [];
+    const { profiles, errors } = importProfiles(raw);
+    for (const err of errors) this.log(`ItemTags stored profile ignored: ${err}`);
+    return profiles;
+  }
+
+  /** Built-in presets, with saved profiles of the same name taking their place. */
+  private allProfiles(): TagProfile[] {
+    const saved = this.savedProfiles();
+    const builtins = BUILTIN_PROFILES.filter((b) => !saved.some((p) => p.name === b.name));
+    return [...builtins, ...saved];
+  }
+
+  private refreshProfileOptions() {
+    this.settings.profile.options = this.allProfiles().map((p) => p.name);
+  }
+
+  private storeProfiles(incoming: TagProfile[]) {
+    const names = new Set(incoming.map((p) => p.name));
+    const merged = [...this.savedProfiles().filter((p) => !names.has(p.name)), ...incoming];
+    this.settings.profilesData.value = exportProfiles(merged);
+    this.refreshProfileOptions();
+  }
+
+  private captureProfile(name: string): TagProfile {
+    const s = this.settings;
+    return {
+      name,
+      categories: Object.fromEntries(
+        TAG_CATEGORIES.map((c) => [c, !!s[CATEGORY_SETTINGS[c]]?.value])
+      ) as Record<TagCategory, boolean>,
+      ignoreMagicalScrolls: !!s.ignoreMagicalScrolls.value,
+      locations: Object.fromEntries(getContainers().map((c) => [c.id, this.locationMode(c)])),
+      color: { enabled: !!s.colorCheck.value, value: String(s.colorPick.value) },
+      theme: String(s.theme.value),
+      categoryColors: String(s.categoryColorsText.value || ""),
+      suffixColors: !!s.suffixColors.value,
+      customRules: { enabled: !!s.customRules.value, text: String(s.customRulesText.value || "") },
     };
+  }
 
-    const applyManualFor = (cat: keyof typeof MANUAL, k: string): string | null => {
-      const v = MANUAL[cat][k.toLowerCase()];
-      return v || null;
+  private applyProfile(p: TagProfile) {
+    const s = this.settings;
+    for (const c of TAG_CATEGORIES) s[CATEGORY_SETTINGS[c]].value = !!p.categories[c];
+    s.ignoreMagicalScrolls.value = p.ignoreMagicalScrolls;
+    for (const c of getContainers()) {
+      const mode = p.locations[c.id];
+      if (mode) s[locationSetting(c)].value = mode;
+    }
+    s.colorCheck.value = p.color.enabled;
+    s.colorPick.value = p.color.value;
+    s.colorPick.hidden = !p.color.enabled;
+    s.theme.value = p.theme;
+    if (p.categoryColors != null) s.categoryColorsText.value = p.categoryColors;
+    s.suffixColors.value = p.suffixColors;
+    if (p.customRules) {
+      s.customRules.value = p.customRules.enabled;
+      s.customRulesText.value = p.customRules.text;
+    }
+    s.profile.value = p.name;
+    this.reloadUserRules();
+    this.reloadCategoryColors();
+    this.rescanSoon();
+  }
+
+  private saveCurrentProfile() {
+    const name = String(this.settings.profileName.value || this.settings.profile.value || "").trim();
+    if (!name) return;
+    this.storeProfiles([this.captureProfile(name)]);
+    this.settings.profile.value = name;
+    this.log(`ItemTags saved profile "${name}"`);
+  }
+
+  private exportActiveProfile(toFile: boolean) {
+    if (toFile) {
+      downloadText("itemtags-profiles.json", exportProfiles(this.allProfiles(), true));
+      return;
+    }
+    const json = exportProfiles([this.captureProfile(String(this.settings.profile.value || "Default"))]);
+    this.settings.profileJson.value = json;
+    navigator.clipboard?.writeText(json).catch(() => {});
+  }
+
+  private importProfileText(json: string) {
+    const { profiles, errors } = importProfiles(json.trim());
+    for (const err of errors) this.log(`ItemTags import: ${err}`);
+    if (!profiles.length) return;
+    this.storeProfiles(profiles);
+    this.applyProfile(profiles[0]);
+    this.log(`ItemTags imported ${profiles.length} profile(s)`);
+  }
+
+  private importProfileFile() {
+    pickFile((text) => this.importProfileText(text));
+  }
+
+  // ---------- Prices ----------
+  private loadPrices(source: PriceSource, raw: string) {
+    if (!raw) return;
+    const { prices, errors } = parsePriceTable(raw);
+    for (const err of errors) this.log(`ItemTags stored ${source} price ignored: ${err}`);
+    this.prices.replace(source, prices);
+    this.rescanSoon();
+  }
+
+  private importPriceText(json: string) {
+    const { prices, errors } = parsePriceTable(json.trim());
+    for (const err of errors) this.log(`ItemTags price import: ${err}`);
+    if (!prices.size) return;
+    this.prices.replace("imported", prices);
+    this.settings.pricesData.value = this.prices.toJSON("imported");
+    this.log(`ItemTags imported ${prices.size} price(s)`);
+    this.rescanSoon();
+  }
+
+  /** Records prices of the open shop; returns whether any were new or changed. */
+  private captureShopPrices(): boolean {
+    if (String(this.settings.valueMode?.value || "Off") === "Off") return false;
+    const em = this.entityManager();
+    const items = getContainers().find((c) => c.id === "shop")?.items?.(em) ?? [];
+    let changed = false;
+    for (const item of items) {
+      const price = item ? this.resolveItemPrice(item) : null;
+      if (price == null) continue;
+      const id = this.resolveItemId(item);
+      changed = this.prices.set("shop", id, this.resolveItemName(item, id), price) || changed;
+    }
+    if (changed) this.settings.shopPricesData.value = this.prices.toJSON("shop");
+    return changed;
+  }
+
+  /** Display text and threshold state for a stack, or null when value mode is off or the price unknown. */
+  private stackValue(id: number | null, name: string | null, amount: number): { text: string; high: boolean } | null {
+    const mode = String(this.settings.valueMode?.value || "Off");
+    if (mode === "Off") return null;
+    const sources = PRICE_SOURCES[String(this.settings.valueSource?.value)] ?? PRICE_SOURCES["Imported, then Shop"];
+    const price = this.prices.get(id, name, sources);
+    if (price == null) return null;
+    const total = price * Math.max(1, amount);
+    const threshold = parseValue(String(this.settings.valueThreshold?.value || ""));
+    return {
+      text: formatValue(mode === "Per Item" ? price : total),
+      high: threshold != null && threshold > 0 && total >= threshold,
     };
+  }
+
+  private enabledCategories(): Set<TagCategory> {
+    return new Set(TAG_CATEGORIES.filter((c) => !!this.settings[CATEGORY_SETTINGS[c]]?.value));
+  }
 
-    const SCROLL_MAGICAL: Record<string, string> = {
-      fire: 'Fire', water: 'Wat', nature: 'Nat', fury: 'Fury', rage: 'Rage', blood: 'Bld', alchemy: 'Alch', energy: 'En', warp: 'Warp', magic: 'Mag',
+  /** The chosen pack, or the client's language when set to Auto; null when no pack covers it. */
+  private activeLocale(): LocalePack | null {
+    const choice = String(this.settings.tagLanguage?.value || "Auto");
+    if (choice !== "Auto") return getLocalePacks().find((p) => p.name === choice) ?? null;
+    return resolveClientPack(clientLocale());
+  }
+
+  // ---------- Item lists ----------
+  private reloadItemLists() {
+    const { lists, errors } = parseListDefinitions(String(this.settings.itemListsText?.value ?? ""));
+    this.itemLists = lists;
+    for (const err of errors) this.log(`ItemTags list ignored: ${err}`);
+    const names = lists.map((l) => l.name);
+    this.settings.activeList.options = names;
+    if (!names.includes(String(this.settings.activeList.value))) this.settings.activeList.value = names[0] ?? "";
+  }
+
+  private storeListMembers() {
+    this.settings.listMembersData.value = JSON.stringify(this.listMembers);
+    // Every cell holding a changed item needs its markers redrawn
+    this.rescanCellsSoon();
+  }
+
+  /** In Edit Mode a click on a slot toggles its item on the Edit List instead of reaching the game. */
+  private attachListEditing() {
+    const editedCell = (ev: MouseEvent): [HTMLElement, number] | null => {
+      if (!this.settings.listEditMode?.value || !this.settings.activeList?.value) return null;
+      const cell = (ev.target as HTMLElement | null)?.closest?.<HTMLElement>(".hs-item-table__cell") ?? null;
+      const slotId = parseInt(cell?.getAttribute("data-slot") || "", 10);
+      return cell && Number.isFinite(slotId) ? [cell, slotId] : null;
     };
-    const POTION_MAP: Record<string, string> = {
-      defense: 'Def', stamina: 'Stam', mining: 'Mine', smithing: 'Smth', lucky: 'Luck', sardinian: 'Sard',
+    // The game acts on press, so presses on slots are swallowed too
+    const onPress = (ev: MouseEvent) => {
+      if (!editedCell(ev)) return;
+      ev.preventDefault();
+      ev.stopPropagation();
     };
-    const GEM_MAP: Record<string, string> = {
-      amethyst: 'Am', sapphire: 'Sap', emerald: 'Em', ruby: 'Ruby', citrine: 'Cit', diamond: 'Dia', carbonado: 'Carb',
+    const onClick = (ev: MouseEvent) => {
+      const target = editedCell(ev);
+      if (!target) return;
+      ev.preventDefault();
+      ev.stopPropagation();
+      const item = this.resolveItemFromCell(target[0], target[1]);
+      if (!item) return;
+
+      const list = String(this.settings.activeList.value);
+      const id = this.resolveItemId(item);
+      const name = this.resolveItemName(item, id);
+      const added = toggleMember(this.listMembers, list, id, name);
+      this.log(`ItemTags ${added ? "added" : "removed"} "${name ?? `#${id}`}" ${added ? "to" : "from"} ${list}`);
+      this.storeListMembers();
     };
+    document.addEventListener("pointerdown", onPress, true);
+    document.addEventListener("mousedown", onPress, true);
+    document.addEventListener("click", onClick, true);
+    this.unsubscribers.push(() => {
+      document.removeEventListener("pointerdown", onPress, true);
+      document.removeEventListener("mousedown", onPress, true);
+      document.removeEventListener("click", onClick, true);
+    });
+  }
 
-    // 1) Potions: Potion of TYPE (N)
-    const potionMatch = /^potion of\s+(.+?)\s*\((\d+)\)$/i.exec(n);
-    if (potionMatch && this.settings.showPotions.value) {
-      if (allowed && !allowed.has("potion")) return null;
-      const type = potionMatch[1].trim();
-      const doses = potionMatch[2];
-      const mapped = POTION_MAP[type.toLowerCase()] || applyManualFor('potion', type) || capitalize3(type);
-      return `${mapped} (${doses})`;
-    }
-
-    // 2) Logs
-    const logsMatch = /^(.*?)\s*logs$/i.exec(n);
-    if (logsMatch && this.settings.showLogs.value) {
-      if (allowed && !allowed.has("logs")) return null;
-      const prefix = logsMatch[1].trim();
-      if (!prefix) return 'Norm';
-      return applyManualFor('logs', prefix) || capitalize3(prefix);
-    }
-
-    // 3) Roots
-    const rootMatch = /^(.*?)\s+root(s)?$/i.exec(n);
-    if (rootMatch && this.settings.showRoots.value) {
-      if (allowed && !allowed.has("root")) return null;
-      const prefix = rootMatch[1].trim();
-      if (!prefix) return 'Norm';
-      return applyManualFor('root', prefix) || capitalize3(prefix);
-    }
-
-    // 4) Scroll (singular)
-    const scrollMatch = /^(.*?)\s*scroll$/i.exec(n);
-    if (scrollMatch && this.settings.showScrolls.value) {
-      if (allowed && !allowed.has("scroll")) return null;
-      const prefix = scrollMatch[1].trim();
-      // Magical scrolls list (Fire, Water, etc.)
-      if (SCROLL_MAGICAL[prefix.toLowerCase()]) {
-        if (this.settings.ignoreMagicalScrolls?.value) return null;
-        return SCROLL_MAGICAL[prefix.toLowerCase()];
-      }
-      // Non-magical scrolls follow log-like rules and manual overrides
-      if (!prefix) return 'Norm';
-      return applyManualFor('scroll', prefix) || capitalize3(prefix);
-    }
-
-    // 5) Bows (and Unstrung Bows)
-    if ((this as any).settings?.showBows?.value) {
-      const bowMatch = /^(unstrung\s+)?(.+?)\s+bow$/i.exec(n);
-      if (bowMatch) {
-        if (allowed && !allowed.has("bow")) return null;
-        const isUnstrung = !!bowMatch[1];
-        const type = bowMatch[2].trim();
-        const base = applyManualFor('bow', type) || capitalize3(type);
-        return isUnstrung ? `${base} (u)` : base;
-      }
-    }
+  private addPastedListItems() {
+    const list = String(this.settings.activeList?.value || "");
+    if (!list) return this.log("ItemTags: define a list under Item Lists first");
+    const keys = parseMemberText(String(this.settings.listPaste?.value || ""));
+    const current = this.listMembers[list] ?? [];
+    const added = keys.filter((k, i) => !current.includes(k) && keys.indexOf(k) === i);
+    this.listMembers[list] = [...current, ...added];
+    this.settings.listPaste.value = "";
+    this.log(`ItemTags added ${added.length} item(s) to ${list}`);
+    this.storeListMembers();
+  }
 
-    // 5b) Ores
-    if ((this as any).settings?.showOres?.value) {
-      if (allowed && !allowed.has("ore")) return null;
-      if (/^coal$/i.test(n)) return 'Coal';
-      const nugget = /^(silver|gold)\s+nugget$/i.exec(n);
-      if (nugget) {
-        const metal = nugget[1].toLowerCase();
-        return metal === 'gold' ? 'Gold' : 'Silv';
-      }
-      const oreMatch = /^(.+?)\s+ore$/i.exec(n);
-      if (oreMatch) {
-        const t = oreMatch[1].trim();
-        const oreMap: Record<string, string> = {
-          coal: 'Coal', iron: 'Iron', coronium: 'Coro', celadium: 'Cela', gold: 'Gold', silver: 'Silv',
-        };
-        return oreMap[t.toLowerCase()] || capitalize3(t);
-      }
-    }
+  private clearActiveList() {
+    const list = String(this.settings.activeList?.value || "");
+    if (!list) return;
+    delete this.listMembers[list];
+    this.storeListMembers();
+  }
 
-    // 5c) Bars
-    if ((this as any).settings?.showBars?.value) {
-      if (allowed && !allowed.has("bar")) return null;
-      if (/^pig\s+iron\s+bar$/i.test(n)) return null; // excluded
-      const barMatch = /^(.+?)\s+bar$/i.exec(n);
-      if (barMatch) {
-        const t = barMatch[1].trim();
-        const barMap: Record<string, string> = {
-          iron: 'Iron', coronium: 'Coro', celadium: 'Cela', gold: 'Gold', silver: 'Silv',
-        };
-        return barMap[t.toLowerCase()] || capitalize3(t);
-      }
-    }
+  private reloadUserRules() {
+    const { rules, errors } = parseUserRules(String(this.settings.customRulesText?.value ?? ""));
+    this.userRules = rules;
+    for (const err of errors) this.log(`ItemTags rule ignored: ${err}`);
+  }
 
-    // 6) Jewelry
-    if ((this as any).settings?.showJewelry?.value) {
-      if (allowed && !allowed.has("jewelry")) return null;
-      // Exclude crafting moulds
-      if (/\bnecklace\s+mould\b/i.test(n)) return null;
-      // Monk's Necklace outlier
-      if (/monk'?s\s+necklace\b/i.test(n)) return 'Monk';
-      const lowerName = n.toLowerCase();
-      if (/\bnecklace\b/i.test(n)) {
-        // Prefer anchored match first
-        const m = /^(?:(gold)\s+)?(.+?)\s+necklace(?:\s*\(.*\))?$/i.exec(n);
-        let gemWord = '';
-        let isGold = false;
-        if (m) {
-          isGold = !!m[1];
-          gemWord = m[2].trim();
-        } else {
-          // Fallback: detect metal anywhere, then take the word before 'necklace'
-          isGold = /\bgold\b/i.test(n);
-          const pre = /([A-Za-z][A-Za-z\-']+)\s+necklace\b/i.exec(n);
-          gemWord = (pre?.[1] || '').trim();
-        }
-        // Resolve gem abbreviation
-        let abbr = '';
-        if (gemWord) {
-          abbr = GEM_MAP[gemWord.toLowerCase()] || capitalize3(gemWord);
-        } else {
-          // Search any known gem name within the string
-          const keys = Object.keys(GEM_MAP).sort((a,b)=>b.length-a.length);
-          const found = keys.find(k => lowerName.includes(k));
-          abbr = found ? GEM_MAP[found] : capitalize3(n);
-        }
-        const suf = isGold ? '(g)' : '(s)';
-        return `${abbr} ${suf}`;
-      }
-    }
+  /** Removes the badge of a cell that no longer holds a taggable item. */
+  private clearCell(cell: HTMLElement) {
+    this.cellState.delete(cell);
+    this.removeBadge(cell);
+    this.renderListMarkers(cell, []);
+  }
 
-    // 7) Gems
-    if ((this as any).settings?.showGems?.value) {
-      if (allowed && !allowed.has("gem")) return null;
-      const rough = /^rough\s+(.+)$/i.exec(n);
-      const justGem = /^(.+?)\s+gem$/i.exec(n); // Cut format provided as "GEMTYPE Gem"
-      const m = rough || justGem;
-      if (m) {
-        const g = m[1].trim();
-        const ab = GEM_MAP[g.toLowerCase()] || capitalize3(g);
-        return ab;
-      }
+  private removeBadge(cell: HTMLElement, selector = ":scope > .hs-inventory-item__tag[data-hs-tag-overlay]") {
+    const host = this.getTagHost(cell);
+    host?.querySelectorAll<HTMLElement>(selector).forEach((b) => b.remove());
+  }
+
+  /** Prefer the same parent as amount badge to coexist with other plugins */
+  private getTagHost(cell: HTMLElement): HTMLElement | null {
+    const amount = cell.querySelector(".hs-inventory-item__amount");
+    if (amount && amount.parentElement) return amount.parentElement as HTMLElement;
+    const item = cell.querySelector(".hs-inventory-item") as HTMLElement | null;
+    if (item) return item;
+    return cell; // fallback
+  }
+
+  /** Single accessor for the client's EntityManager; the tests swap it via `gameHooks` (src/__fixtures__/fakeGame.ts). */
+  private entityManager(): any {
+    return this.hooks.entityManager();
+  }
+
+  private resolveItemFromCell(cell: HTMLElement, slotId: number): any | null {
+    const em = this.entityManager();
+    return containerForCell(cell)?.resolveItem(em, slotId, cell) ?? null;
+  }
+
+  private locationMode(container: ItemContainer): ContainerMode {
+    const v = this.settings[locationSetting(container)]?.value;
+    return CONTAINER_MODES.includes(v) ? v : container.defaultMode;
+  }
+
+  /** One-time move from the old three-way "Show Where" to per-container modes. */
+  private migrateShowWhere() {
+    const old = String(this.settings.showWhere?.value || "");
+    if (!SHOW_WHERE_OPTIONS.includes(old)) return;
+    for (const [id, mode] of Object.entries(locationsFromShowWhere(old))) {
+      const c = getContainers().find((x) => x.id === id);
+      if (c) this.settings[locationSetting(c)].value = mode;
     }
+    this.settings.showWhere.value = "";
+    this.rescanSoon();
+  }
 
-    return null;
+  /** One-time move from the removed "Dark Items" toggle to "Gear". */
+  private migrateShowDarkItems() {
+    const old = String(this.settings.showDarkItems?.value ?? "");
+    if (old !== "true" && old !== "false") return;
+    this.settings.showGear.value = old === "true";
+    this.settings.showDarkItems.value = "";
+    this.rescanSoon();
+  }
+
+  private resolveItemId(item: any): number | null {
+    const def = item?._def || item?._itemDefinition || item?.def || null;
+    const raw = item?._id ?? def?._id ?? null;
+    const id = typeof raw === "number" ? raw : parseInt(String(raw), 10);
+    return Number.isFinite(id) ? id : null;
   }
 
-  private formatTag(tag: string): string {
-    // Capitalize space-separated tokens, but do not alter tokens that start with '('
-    return tag
-      .split(/\s+/)
-      .map((tok) => {
-        if (!tok) return tok;
-        if (tok.startsWith('(')) return tok; // keep (u)/(s)/(g)
-        return tok.charAt(0).toUpperCase() + tok.slice(1).toLowerCase();
-      })
-      .join(' ');
+  private resolveItemAmount(item: any): number {
+    const raw = item?._amount ?? item?.Amount ?? item?._count ?? 1;
+    const n = typeof raw === "number" ? raw : parseInt(String(raw), 10);
+    return Number.isFinite(n) ? n : 1;
+  }
+
+  /** Unit price of a shop item, under whichever field the client uses. */
+  private resolveItemPrice(item: any): number | null {
+    const raw = item?._cost ?? item?._price ?? item?.Cost ?? item?.Price ?? item?._value ?? null;
+    const n = typeof raw === "number" ? raw : parseFloat(String(raw));
+    return Number.isFinite(n) && n >= 0 ? n : null;
+  }
+
+  private resolveItemName(item: any, id: number | null): string | null {
+    // Prefer attached definition on item
+    const def = item?._def || item?._itemDefinition || (item as any)?.def || null;
+    let raw = (def && (def._nameCapitalized || def._name)) || (item as any)._nameCapitalized || (item as any)._name || null;
+
+    // Fallback to global ItemDefinitionManager by id if available
+    if (!raw && id != null) {
+      const def2 = this.hooks.itemDefinition(id);
+      raw = def2?._nameCapitalized || def2?._name || null;
+    }
+    if (typeof raw === "string") return raw.trim();
+    return null;
   }
 
   private syncBadgeTypography(host: HTMLElement, badge: HTMLElement) {
     try {
-      // Prefer sibling amount under the same host; fallback to any amount in document
-      let amount = host.querySelector('.hs-inventory-item__amount') as HTMLElement | null;
-      if (!amount) amount = document.querySelector('.hs-inventory-item__amount') as HTMLElement | null;
-      if (amount) {
+      // Amount badges share one style per table, so read it once per table
+      const table = host.closest(".hs-item-table") ?? document.body;
+      let typo = this.typographyCache.get(table);
+      if (!typo) {
+        // Prefer sibling amount under the same host; fallback to any amount in document
+        let amount = host.querySelector('.hs-inventory-item__amount') as HTMLElement | null;
+        if (!amount) amount = document.querySelector('.hs-inventory-item__amount') as HTMLElement | null;
+        if (!amount) return;
         const cs = getComputedStyle(amount);
-        if (cs) {
-          // Copy typography only; do not copy positional/background properties
-          badge.style.fontSize = cs.fontSize || '';
-          badge.style.lineHeight = cs.lineHeight || '';
-          badge.style.fontFamily = cs.fontFamily || '';
-          badge.style.fontWeight = cs.fontWeight || '';
-          badge.style.fontStyle = cs.fontStyle || '';
-          badge.style.letterSpacing = cs.letterSpacing || '';
-          badge.style.textShadow = cs.textShadow || '';
-        }
+        if (!cs) return;
+        // Copy typography only; do not copy positional/background properties
+        typo = {
+          fontSize: cs.fontSize ? `calc(${cs.fontSize} * var(--hs-item-tags-scale, 1))` : '',
+          lineHeight: cs.lineHeight || '',
+          fontFamily: cs.fontFamily || '',
+          fontWeight: cs.fontWeight || '',
+          fontStyle: cs.fontStyle || '',
+          letterSpacing: cs.letterSpacing || '',
+          textShadow: cs.textShadow || '',
+        };
+        this.typographyCache.set(table, typo);
       }
+      Object.assign(badge.style, typo);
     } catch {}
   }
 
   /**
-   * Apply a unique text color to the tag badge.
+   * Apply the configured colors to the tag badge.
    * - If settings.colorcheck.value is true, use settings.colorpick.value.
-   * - If false or unavailable, remove override so it falls back to the amount color.
-   * The color is applied via a custom CSS variable on the badge element only,
-   * so it will not affect the amount or other UI elements.
+   * - Per-category colors from settings.categoryColorsText override that.
+   * - The theme and suffix coloring are attributes matched by the stylesheet.
+   * - "Match Amount" removes every override so it falls back to the amount color.
+   * Colors are applied via custom CSS variables on the badge element only,
+   * so they will not affect the amount or other UI elements.
    */
-  private applyTagColor(badge: HTMLElement) {
+  private applyTagColor(badge: HTMLElement, tag: TagResult) {
     try {
       const s = (this as any).settings || {};
-      const useCustom = !!(s.colorCheck?.value ?? s.colorcheck?.value);
+      const theme = String(s.theme?.value || "Default");
+      const matchAmount = theme === "Match Amount";
+      const useCustom = !matchAmount && !!(s.colorCheck?.value ?? s.colorcheck?.value);
       const pick = s.colorPick?.value ?? s.colorpick?.value;
 
-      if (useCustom && pick) {
-        // Set per-badge var consumed by CSS: resources/css/base.css
-        badge.style.setProperty('--hs-item-identifier-tag-fg', String(pick));
-      } else {
-        // Remove override so it uses the amount color fallback
-        badge.style.removeProperty('--hs-item-identifier-tag-fg');
-      }
+      // Set per-badge vars consumed by CSS: resources/css/base.css
+      setVar(badge, "--hs-item-identifier-tag-fg", useCustom && pick ? String(pick) : null);
+      const cat = matchAmount ? undefined : this.categoryColors[tag.category];
+      setVar(badge, "--hs-item-tags-category-fg", cat?.fg ?? null);
+      setVar(badge, "--hs-item-tags-category-bg", cat?.bg ?? null);
+
+      badge.setAttribute("data-hs-tag-theme", themeAttr(theme));
+      badge.toggleAttribute("data-hs-tag-suffix-color", !matchAmount && !!s.suffixColors?.value);
     } catch {}
   }
+}
 
-  // Additional robust jewelry derivation used as a fallback in Gear Only
-  private deriveJewelryTag(name: string): string | null {
-    const n = name.trim();
-    if (/\bnecklace\s+mould\b/i.test(n)) return null;
-    if (/monk'?s\s+necklace\b/i.test(n)) return 'Monk';
-    if (!/\bnecklace\b/i.test(n)) return null;
-    const m = /^(?:(gold)\s+)?(.+?)\s+necklace(?:\s*\(.*\))?$/i.exec(n);
-    let isGold = false;
-    let mid = '';
-    if (m) {
-      isGold = !!m[1];
-      mid = m[2].trim();
-    } else {
-      isGold = /\bgold\b/i.test(n);
-      const pre = /([A-Za-z][A-Za-z\-']+)\s+necklace\b/i.exec(n);
-      mid = (pre?.[1] || '').trim();
-    }
-    const GEM_MAP: Record<string, string> = {
-      amethyst: 'Am', sapphire: 'Sap', emerald: 'Em', ruby: 'Ruby', citrine: 'Cit', diamond: 'Dia', carbonado: 'Carb',
-    };
-    let abbr = '';
-    if (mid) {
-      abbr = GEM_MAP[mid.toLowerCase()] || capitalize3(mid);
-    } else {
-      const lower = n.toLowerCase();
-      const keys = Object.keys(GEM_MAP).sort((a,b)=>b.length-a.length);
-      const found = keys.find(k => lower.includes(k));
-      abbr = found ? GEM_MAP[found] : capitalize3(n);
-    }
-    const suf = isGold ? '(g)' : '(s)';
-    return `${abbr} ${suf}`;
-  }
+const OWN_NODES = "[data-hs-tag-overlay], [data-hs-tag-ui]";
+
+function modifierHeld(ev: MouseEvent | KeyboardEvent, modifier: string): boolean {
+  if (modifier === "Shift") return ev.shiftKey;
+  if (modifier === "Alt") return ev.altKey;
+  if (modifier === "Ctrl") return ev.ctrlKey || ev.metaKey;
+  return false;
 }
 
-function capitalize3(s: string): string {
-  const t = s.trim();
-  if (!t) return '';
-  const seg = t.slice(0, 3);
-  return seg.charAt(0).toUpperCase() + seg.slice(1).toLowerCase();
+/** True for DOM changes made by this plugin's own badges and controls. */
+function isOwnMutation(m: MutationRecord): boolean {
+  const target = m.target as Element;
+  if (target.closest?.(OWN_NODES)) return true;
+  if (m.type !== "childList") return false;
+  const nodes = [...Array.from(m.addedNodes), ...Array.from(m.removedNodes)];
+  return nodes.length > 0 && nodes.every((n) => (n as Element).matches?.(OWN_NODES));
 }
+
+/** Whether a childList mutation added or removed an item table, or something holding one. */
+function touchesTable(m: MutationRecord, tables: string): boolean {
+  return [...Array.from(m.addedNodes), ...Array.from(m.removedNodes)].some((n) => {
+    const el = n as Element;
+    return !!(el.matches?.(tables) || el.querySelector?.(tables));
+  });
+}
+
+function locationSetting(container: ItemContainer): string {
+  return `where${container.id.charAt(0).toUpperCase()}${container.id.slice(1)}`;
+}
+
+/** Sets or removes (when null) a CSS custom property on one element. */
+function setVar(el: HTMLElement, name: string, value: string | null) {
+  if (value) el.style.setProperty(name, value);
+  else el.style.removeProperty(name);
+}
+
+/** Opens a file picker and passes the chosen JSON file's text to `onText`. */
+function pickFile(onText: (text: string) => void) {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = "application/json,.json";
+  input.addEventListener("change", () => {
+    input.files?.[0]?.text().then(onText).catch(() => {});
+  });
+  input.click();
+}
+
+function downloadText(filename: string, text: string, type = "application/json") {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Highest skill level needed to equip the item, or null when the definition has none. */
+function levelRequirement(def: any): number | null {
+  const direct = def?._levelRequirement ?? def?._level;
+  if (typeof direct === "number" && direct > 0) return direct;
+  const reqs = def?._equippableRequirements ?? def?._requirements;
+  if (!Array.isArray(reqs)) return null;
+  let max: number | null = null;
+  for (const r of reqs) {
+    const level = r?._amount ?? r?._level ?? r?.Amount;
+    if (typeof level === "number" && level > (max ?? 0)) max = level;
+  }
+  return max;
+}
+
@@ -0,0 +1,161 @@
+/**
+ * Floating panel
+ * --------------------------
+ * A small draggable overlay used for the plugin's summaries. It is created
+ * on first `show()` and removed from the DOM by `hide()`, so a stopped
+ * plugin leaves nothing behind.
+ */
+export interface PanelEntry {
+  key: string;
+  label: string;
+  value: string;
+}
+
+export interface PanelGroup extends PanelEntry {
+  entries: PanelEntry[];
+}
+
+export class FloatingPanel {
+  private root: HTMLElement | null = null;
+  private body: HTMLElement | null = null;
+  private expanded = new Set<string>();
+  private selected: string | null = null;
+  private onSelect: (key: string | null) => void = () => {};
+  private left = 16;
+  private top = 96;
+
+  constructor(private readonly id: string, private readonly title: string) {}
+
+  show(): HTMLElement {
+    if (this.root?.isConnected && this.body) return this.body;
+
+    const root = document.createElement("div");
+    root.className = "hs-item-tags-panel";
+    root.setAttribute("data-hs-tag-ui", "true");
+    root.setAttribute("data-panel", this.id);
+    root.style.left = `${this.left}px`;
+    root.style.top = `${this.top}px`;
+
+    const header = document.createElement("div");
+    header.className = "hs-item-tags-panel__header";
+    header.textContent = this.title;
+    this.makeDraggable(root, header);
+
+    const body = document.createElement("div");
+    body.className = "hs-item-tags-panel__body";
+
+    root.append(header, body);
+    document.body.appendChild(root);
+    this.root = root;
+    this.body = body;
+    return body;
+  }
+
+  hide() {
+    this.root?.remove();
+    this.root = null;
+    this.body = null;
+    this.selected = null;
+  }
+
+  /** Replaces the body with `label  value` rows; an empty list shows `emptyText`. */
+  setRows(rows: Array<[string, string]>, emptyText = "Nothing to show") {
+    const body = this.show();
+    const key = JSON.stringify(rows);
+    if (body.dataset.rows === key) return;
+    body.dataset.rows = key;
+
+    body.replaceChildren();
+    if (!rows.length) {
+      const empty = document.createElement("div");
+      empty.className = "hs-item-tags-panel__empty";
+      empty.textContent = emptyText;
+      body.appendChild(empty);
+      return;
+    }
+    for (const [label, value] of rows) {
+      const row = document.createElement("div");
+      row.className = "hs-item-tags-panel__row";
+      const l = document.createElement("span");
+      l.textContent = label;
+      const v = document.createElement("span");
+      v.textContent = value;
+      row.append(l, v);
+      body.appendChild(row);
+    }
+  }
+
+  /**
+   * Replaces the body with collapsible groups of `label  value` rows. Clicking
+   * a group header expands it; clicking a header or an entry selects it, and
+   * clicking the selected one again clears the selection. `onSelect` gets the
+   * selected key or null.
+   */
+  setGroups(groups: PanelGroup[], emptyText: string, onSelect: (key: string | null) => void) {
+    this.onSelect = onSelect;
+    const body = this.show();
+    const key = JSON.stringify([groups, [...this.expanded], this.selected]);
+    if (body.dataset.rows === key) return;
+    body.dataset.rows = key;
+
+    body.replaceChildren();
+    if (!groups.length) {
+      const empty = document.createElement("div");
+      empty.className = "hs-item-tags-panel__empty";
+      empty.textContent = emptyText;
+      body.appendChild(empty);
+      return;
+    }
+    for (const group of groups) {
+      const open = this.expanded.has(group.key);
+      body.appendChild(this.entryRow(group, "hs-item-tags-panel__row hs-item-tags-panel__group", () => {
+        if (open) this.expanded.delete(group.key);
+        else this.expanded.add(group.key);
+        this.select(group.key, groups);
+      }, open ? "▾ " : "▸ "));
+      if (!open) continue;
+      for (const entry of group.entries) {
+        body.appendChild(this.entryRow(entry, "hs-item-tags-panel__row hs-item-tags-panel__entry", () => this.select(entry.key, groups)));
+      }
+    }
+  }
+
+  private entryRow(entry: PanelEntry, className: string, onClick: () => void, prefix = ""): HTMLElement {
+    const row = document.createElement("div");
+    row.className = className;
+    row.toggleAttribute("data-selected", entry.key === this.selected);
+    const l = document.createElement("span");
+    l.textContent = prefix + entry.label;
+    const v = document.createElement("span");
+    v.textContent = entry.value;
+    row.append(l, v);
+    row.addEventListener("click", onClick);
+    return row;
+  }
+
+  private select(key: string, groups: PanelGroup[]) {
+    this.selected = this.selected === key ? null : key;
+    this.setGroups(groups, "", this.onSelect);
+    this.onSelect(this.selected);
+  }
+
+  private makeDraggable(root: HTMLElement, handle: HTMLElement) {
+    handle.addEventListener("pointerdown", (down) => {
+      const startX = down.clientX - this.left;
+      const startY = down.clientY - this.top;
+      const move = (ev: PointerEvent) => {
+        this.left = Math.max(0, ev.clientX - startX);
+        this.top = Math.max(0, ev.clientY - startY);
+        root.style.left = `${this.left}px`;
+        root.style.top = `${this.top}px`;
+      };
+      const up = () => {
+        window.removeEventListener("pointermove", move);
+        window.removeEventListener("pointerup", up);
+      };
+      window.addEventListener("pointermove", move);
+      window.addEventListener("pointerup", up);
+      down.preventDefault();
+    });
+  }
+}
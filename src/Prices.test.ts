@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { formatValue, parsePriceTable, parseValue, PriceBook, priceKeys } from "./Prices";
+
+describe("parsePriceTable", () => {
+  it("reads an object of names and #ids", () => {
+    const { prices, errors } = parsePriceTable(`{ "Iron Bar": 120, "#45": 300, " Pine logs ": "1.5k" }`);
+    expect(errors).toEqual([]);
+    expect([...prices]).toEqual([["iron bar", 120], ["#45", 300], ["pine logs", 1500]]);
+  });
+
+  it("reads an array of entries, under both ID and name", () => {
+    const { prices, errors } = parsePriceTable(`[{ "id": 45, "name": "Iron Bar", "price": 120 }, { "id": 7, "value": 9 }]`);
+    expect(errors).toEqual([]);
+    expect([...prices]).toEqual([["#45", 120], ["iron bar", 120], ["#7", 9]]);
+  });
+
+  it("reports bad entries and keeps the good ones", () => {
+    const { prices, errors } = parsePriceTable(`[{ "price": 1 }, { "name": "Ore", "price": -5 }, { "name": "Bar", "price": "lots" }, { "id": 3, "price": 4 }]`);
+    expect(errors).toEqual([
+      `Entry 1 has neither "id" nor "name"`,
+      "Invalid price for Ore: -5",
+      `Invalid price for Bar: "lots"`,
+    ]);
+    expect([...prices]).toEqual([["#3", 4]]);
+  });
+
+  it("rejects invalid JSON and other top-level values", () => {
+    expect(parsePriceTable("{").errors[0]).toMatch(/^Not valid JSON: /);
+    expect(parsePriceTable("42").errors).toHaveLength(1);
+    expect(parsePriceTable("null").prices.size).toBe(0);
+  });
+});
+
+describe("formatValue", () => {
+  it("keeps small values whole", () => {
+    expect(formatValue(0)).toBe("0");
+    expect(formatValue(950)).toBe("950");
+    expect(formatValue(12.6)).toBe("13");
+  });
+
+  it("shows one decimal below ten units and whole units above", () => {
+    expect(formatValue(1200)).toBe("1.2k");
+    expect(formatValue(1000)).toBe("1k");
+    expect(formatValue(15_999)).toBe("15k");
+    expect(formatValue(3_400_000)).toBe("3.4m");
+    expect(formatValue(1_100_000_000)).toBe("1.1b");
+    expect(formatValue(-2500)).toBe("-2.5k");
+  });
+});
+
+describe("parseValue", () => {
+  it("reads plain numbers with separators", () => {
+    expect(parseValue("950")).toBe(950);
+    expect(parseValue("1,500")).toBe(1500);
+    expect(parseValue(" 2_000 ")).toBe(2000);
+  });
+
+  it("reads unit suffixes in either case", () => {
+    expect(parseValue("1.2k")).toBe(1200);
+    expect(parseValue("3M")).toBe(3_000_000);
+    expect(parseValue("1b")).toBe(1_000_000_000);
+  });
+
+  it("round-trips formatted values", () => {
+    for (const n of [950, 1200, 15_000, 3_400_000, 1_100_000_000]) expect(parseValue(formatValue(n))).toBe(n);
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseValue("")).toBeNull();
+    expect(parseValue("12x")).toBeNull();
+    expect(parseValue("k")).toBeNull();
+  });
+});
+
+describe("PriceBook", () => {
+  it("keys items by ID and trimmed lower-case name", () => {
+    expect(priceKeys(45, " Iron Bar ")).toEqual(["#45", "iron bar"]);
+    expect(priceKeys(null, "")).toEqual([]);
+  });
+
+  it("finds a price by ID or by name", () => {
+    const book = new PriceBook();
+    book.set("imported", null, "Iron Bar", 120);
+    book.set("imported", 7, null, 9);
+    expect(book.get(45, "iron bar", ["imported"])).toBe(120);
+    expect(book.get(7, "Renamed", ["imported"])).toBe(9);
+    expect(book.get(8, "Ore", ["imported"])).toBeNull();
+  });
+
+  it("tries sources in the order given", () => {
+    const book = new PriceBook();
+    book.set("imported", 45, "Iron Bar", 120);
+    book.set("shop", 45, "Iron Bar", 150);
+    expect(book.get(45, "Iron Bar", ["shop", "imported"])).toBe(150);
+    expect(book.get(45, "Iron Bar", ["imported", "shop"])).toBe(120);
+    expect(book.get(45, "Iron Bar", [])).toBeNull();
+  });
+
+  it("reports whether a set changed anything", () => {
+    const book = new PriceBook();
+    expect(book.set("shop", 45, "Iron Bar", 150)).toBe(true);
+    expect(book.set("shop", 45, "Iron Bar", 150)).toBe(false);
+    expect(book.set("shop", 45, "Iron Bar", 160)).toBe(true);
+  });
+
+  it("replaces and exports one source", () => {
+    const book = new PriceBook();
+    book.set("shop", 1, null, 5);
+    book.replace("imported", parsePriceTable(`{ "#45": 300 }`).prices);
+    expect(book.toJSON("imported")).toBe(`{"#45":300}`);
+    expect(book.toJSON("shop")).toBe(`{"#1":5}`);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Item prices
+ * --------------------------
+ * Prices come from two sources: a table the user imports as JSON, and the
+ * prices of shops the player has opened. Both are keyed by item definition
+ * ID (`#123`) and by lower-cased name, so a table written by hand with names
+ * only still applies. Lookups try the sources in the order the user chose.
+ *
+ * Accepted JSON:
+ *   { "Iron Bar": 120, "#45": 300 }
+ *   [{ "id": 45, "name": "Iron Bar", "price": 120 }]   (`value` also accepted)
+ */
+export type PriceSource = "imported" | "shop";
+
+export type PriceMap = Map<string, number>;
+
+export interface ParsedPrices {
+  prices: PriceMap;
+  errors: string[];
+}
+
+export function priceKeys(id: number | null, name: string | null): string[] {
+  const keys: string[] = [];
+  if (id != null) keys.push(`#${id}`);
+  if (name?.trim()) keys.push(name.trim().toLowerCase());
+  return keys;
+}
+
+export class PriceBook {
+  private tables: Record<PriceSource, PriceMap> = { imported: new Map(), shop: new Map() };
+
+  /** First known price for the item, trying `sources` in order. */
+  get(id: number | null, name: string | null, sources: readonly PriceSource[]): number | null {
+    const keys = priceKeys(id, name);
+    for (const source of sources) {
+      for (const k of keys) {
+        const price = this.tables[source].get(k);
+        if (price != null) return price;
+      }
+    }
+    return null;
+  }
+
+  /** Records one price; returns whether anything changed. */
+  set(source: PriceSource, id: number | null, name: string | null, price: number): boolean {
+    let changed = false;
+    for (const k of priceKeys(id, name)) {
+      if (this.tables[source].get(k) === price) continue;
+      this.tables[source].set(k, price);
+      changed = true;
+    }
+    return changed;
+  }
+
+  replace(source: PriceSource, prices: PriceMap) {
+    this.tables[source] = new Map(prices);
+  }
+
+  toJSON(source: PriceSource): string {
+    return JSON.stringify(Object.fromEntries(this.tables[source]));
+  }
+}
+
+export function parsePriceTable(json: string): ParsedPrices {
+  const prices: PriceMap = new Map();
+  const errors: string[] = [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return { prices, errors: [`Not valid JSON: ${(e as Error)?.message ?? e}`] };
+  }
+
+  const add = (id: number | null, name: string | null, raw: unknown, label: string) => {
+    const price = typeof raw === "number" ? raw : typeof raw === "string" ? parseValue(raw) : null;
+    if (price == null || !Number.isFinite(price) || price < 0) {
+      errors.push(`Invalid price for ${label}: ${JSON.stringify(raw)}`);
+      return;
+    }
+    for (const k of priceKeys(id, name)) prices.set(k, price);
+  };
+
+  if (Array.isArray(data)) {
+    data.forEach((entry, i) => {
+      const id = typeof entry?.id === "number" ? entry.id : null;
+      const name = typeof entry?.name === "string" ? entry.name : null;
+      if (id == null && !name) {
+        errors.push(`Entry ${i + 1} has neither "id" nor "name"`);
+        return;
+      }
+      add(id, name, entry.price ?? entry.value, name ?? `#${id}`);
+    });
+  } else if (data && typeof data === "object") {
+    for (const [key, raw] of Object.entries(data as Record<string, unknown>)) {
+      const m = /^#(\d+)$/.exec(key.trim());
+      add(m ? parseInt(m[1], 10) : null, m ? null : key, raw, key);
+    }
+  } else {
+    errors.push("Expected an object of name/#id → price, or an array of { id, name, price }");
+  }
+
+  return { prices, errors };
+}
+
+/** Compact form: 950, 1.2k, 15k, 3.4m, 1.1b. */
+export function formatValue(n: number): string {
+  const abs = Math.abs(n);
+  const [div, unit] = abs >= 1e9 ? [1e9, "b"] : abs >= 1e6 ? [1e6, "m"] : abs >= 1e3 ? [1e3, "k"] : [1, ""];
+  if (!unit) return String(Math.round(n));
+  const v = n / div;
+  // One decimal below 10 ("1.2k"), whole numbers above ("15k")
+  const text = Math.abs(v) < 10 ? v.toFixed(1).replace(/\.0$/, "") : String(Math.floor(v));
+  return `${text}${unit}`;
+}
+
+/** Inverse of `formatValue`, also accepting plain numbers with separators ("1,500"). */
+export function parseValue(text: string): number | null {
+  const m = /^\s*([\d.,_ ]+)\s*([kmb])?\s*$/i.exec(text);
+  if (!m) return null;
+  const n = parseFloat(m[1].replace(/[,_ ]/g, ""));
+  if (!Number.isFinite(n)) return null;
+  const mult = { k: 1e3, m: 1e6, b: 1e9 }[(m[2] || "").toLowerCase() as "k" | "m" | "b"] ?? 1;
+  return n * mult;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { BUILTIN_PROFILES, exportProfiles, importProfiles, PROFILE_FORMAT, PROFILE_VERSION, TagProfile } from "./Profiles";
+
+const saved: TagProfile = {
+  ...BUILTIN_PROFILES[0],
+  name: "Mine",
+  categoryColors: "logs=#00ff00",
+  customRules: { enabled: true, text: "Pine logs = Tree" },
+};
+
+/** A v1 profile: categories before "dark" became "gear", a single showWhere, no colors or theme. */
+const v1 = {
+  name: "Old",
+  categories: { dark: true, potion: true, logs: false },
+  ignoreMagicalScrolls: false,
+  showWhere: "Bank Only",
+  color: { enabled: true, value: "#ff0000" },
+  customRules: { enabled: false, text: "" },
+};
+
+describe("profile export and import", () => {
+  it("round-trips a profile", () => {
+    const { profiles, errors } = importProfiles(exportProfiles([saved], true));
+    expect(errors).toEqual([]);
+    expect(profiles).toEqual([saved]);
+  });
+
+  it("writes the current format and version", () => {
+    expect(JSON.parse(exportProfiles([saved]))).toMatchObject({ format: PROFILE_FORMAT, version: PROFILE_VERSION });
+  });
+
+  it("keeps a built-in preset free of custom rules and colors", () => {
+    const [preset] = importProfiles(exportProfiles([BUILTIN_PROFILES[1]])).profiles;
+    expect(preset.customRules).toBeUndefined();
+    expect(preset.categoryColors).toBeUndefined();
+  });
+});
+
+describe("profile migrations", () => {
+  const only = (doc: unknown) => {
+    const { profiles, errors } = importProfiles(JSON.stringify(doc));
+    expect(errors).toEqual([]);
+    return profiles;
+  };
+
+  it("wraps a bare v0 profile or array", () => {
+    expect(only(v1).map((p) => p.name)).toEqual(["Old"]);
+    expect(only([v1, { ...v1, name: "Other" }]).map((p) => p.name)).toEqual(["Old", "Other"]);
+  });
+
+  it("v1 → v2 adds a theme but leaves category colors unset", () => {
+    const [p] = only({ format: PROFILE_FORMAT, version: 1, profiles: [v1] });
+    expect(p.theme).toBe("Default");
+    expect(p.suffixColors).toBe(false);
+    expect(p.categoryColors).toBeUndefined();
+  });
+
+  it("v2 → v3 turns showWhere into container modes", () => {
+    const [p] = only({ format: PROFILE_FORMAT, version: 2, profiles: [v1] });
+    expect(p.locations).toEqual({ inventory: "Off", bank: "All", shop: "Off" });
+    expect(p).not.toHaveProperty("showWhere");
+  });
+
+  it("v3 → v4 renames dark to gear, in colors too", () => {
+    const [p] = only({
+      format: PROFILE_FORMAT,
+      version: 3,
+      profiles: [{ ...v1, categoryColors: "dark=#123456; potion=#abcdef" }],
+    });
+    expect(p.categories.gear).toBe(true);
+    expect(p.categories).not.toHaveProperty("dark");
+    expect(p.categoryColors).toBe("gear=#123456; potion=#abcdef");
+  });
+});
+
+describe("profile validation", () => {
+  const errorsFor = (profile: unknown) =>
+    importProfiles(JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION, profiles: [profile] })).errors;
+
+  it("rejects documents it cannot read", () => {
+    expect(importProfiles("{").errors[0]).toMatch(/^Not valid JSON/);
+    expect(importProfiles(JSON.stringify({ format: PROFILE_FORMAT, version: 99, profiles: [] })).errors[0]).toMatch(/newer/);
+    expect(importProfiles(JSON.stringify({ format: PROFILE_FORMAT, version: -1 })).errors[0]).toMatch(/Unknown version/);
+    expect(importProfiles(JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION })).errors).toEqual([
+      "Missing 'profiles' array",
+    ]);
+  });
+
+  it("reports each bad field", () => {
+    expect(errorsFor("x")).toEqual(["profiles[0]: not an object"]);
+    expect(errorsFor({ ...saved, name: " " })).toEqual(["profiles[0]: 'name' must be a non-empty string"]);
+    expect(errorsFor({ ...saved, categories: { wood: true } })).toEqual(["profiles[0]: unknown category 'wood'"]);
+    expect(errorsFor({ ...saved, categories: { logs: "yes" } })).toEqual(["profiles[0]: categories.logs must be true or false"]);
+    expect(errorsFor({ ...saved, locations: { bank: "Some" } })[0]).toMatch(/^profiles\[0\]: locations.bank must be one of/);
+    expect(errorsFor({ ...saved, color: { enabled: true, value: "red" } })).toEqual(["profiles[0]: 'color.value' must be a hex color"]);
+    expect(errorsFor({ ...saved, theme: "Neon" })[0]).toMatch(/^profiles\[0\]: 'theme' must be one of/);
+    expect(errorsFor({ ...saved, categoryColors: "logs" })[0]).toMatch(/^profiles\[0\]: categoryColors: /);
+    expect(errorsFor({ ...saved, customRules: { text: 3 } })).toEqual(["profiles[0]: 'customRules.text' must be a string"]);
+  });
+
+  it("imports the valid profiles of a document and reports the rest", () => {
+    const { profiles, errors } = importProfiles(
+      JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION, profiles: [saved, { name: "" }] }),
+    );
+    expect(profiles.map((p) => p.name)).toEqual(["Mine"]);
+    expect(errors).toHaveLength(2);
+    expect(errors.every((e) => e.startsWith("profiles[1]: "))).toBe(true);
+  });
+});
@@ -0,0 +1,223 @@
+import { CONTAINER_MODES, ContainerMode } from "./Containers";
+import { parseCategoryColors, TAG_THEMES } from "./TagColors";
+import { TAG_CATEGORIES, TagCategory } from "./TagEngine";
+
+/**
+ * Tag profiles
+ * --------------------------
+ * A profile is a named snapshot of everything that decides what the tags look
+ * like: category toggles, where tags are shown, color and custom rules.
+ * Profiles are shared as a versioned JSON document:
+ *
+ *   { "format": "itemtags-profiles", "version": 4, "profiles": [ ... ] }
+ *
+ * Older documents are brought up to date by `MIGRATIONS` before validation.
+ * Category colors and custom rules are optional: a profile without them, like
+ * the built-in presets, leaves the user's own in place when applied.
+ */
+export const PROFILE_FORMAT = "itemtags-profiles";
+export const PROFILE_VERSION = 4;
+
+/** The single "Show Where" choice that per-container modes replaced in v3. */
+export const SHOW_WHERE_OPTIONS = ["Bank Only", "Bank+Bag(Gear Only)", "Bank+Bag(All)"];
+
+export function locationsFromShowWhere(showWhere: string): Record<string, ContainerMode> {
+  const bag: ContainerMode = showWhere === "Bank Only" ? "Off" : showWhere === "Bank+Bag(Gear Only)" ? "Gear Only" : "All";
+  return { inventory: bag, bank: "All", shop: bag };
+}
+
+export interface TagProfile {
+  name: string;
+  categories: Record<TagCategory, boolean>;
+  ignoreMagicalScrolls: boolean;
+  /** Mode per container id (see Containers.ts); containers not listed keep their current mode. */
+  locations: Record<string, ContainerMode>;
+  color: { enabled: boolean; value: string };
+  theme: string;
+  /** `category=#fg[/#bg]` entries, see TagColors.ts */
+  categoryColors?: string;
+  suffixColors: boolean;
+  customRules?: { enabled: boolean; text: string };
+}
+
+export interface ProfileDocument {
+  format: string;
+  version: number;
+  profiles: TagProfile[];
+}
+
+export interface ProfileImport {
+  profiles: TagProfile[];
+  errors: string[];
+}
+
+const allCategories = (on: boolean): Record<TagCategory, boolean> =>
+  Object.fromEntries(TAG_CATEGORIES.map((c) => [c, on])) as Record<TagCategory, boolean>;
+
+const only = (...cats: TagCategory[]): Record<TagCategory, boolean> =>
+  ({ ...allCategories(false), ...Object.fromEntries(cats.map((c) => [c, true])) });
+
+const preset = (name: string, categories: Record<TagCategory, boolean>, showWhere: string): TagProfile => ({
+  name,
+  categories,
+  ignoreMagicalScrolls: true,
+  locations: locationsFromShowWhere(showWhere),
+  color: { enabled: false, value: "#ffffff" },
+  theme: "Default",
+  suffixColors: false,
+});
+
+export const BUILTIN_PROFILES: TagProfile[] = [
+  preset("Default", allCategories(true), "Bank+Bag(All)"),
+  preset("Skilling", only("root", "potion", "logs", "scroll", "bow", "ore", "bar", "gem"), "Bank+Bag(All)"),
+  preset("PvM", only("gear", "jewelry", "potion"), "Bank+Bag(Gear Only)"),
+  preset("Banking", allCategories(true), "Bank Only"),
+];
+
+/**
+ * Upgrades a document from `version` to `version + 1`. Version 0 is a bare
+ * profile or array of profiles without the wrapper.
+ */
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  0: (doc) => ({
+    format: PROFILE_FORMAT,
+    version: 1,
+    profiles: Array.isArray(doc) ? doc : [doc],
+  }),
+  // v2 added theme and per-category colors
+  1: (doc) => ({
+    ...doc,
+    version: 2,
+    profiles: Array.isArray(doc.profiles)
+      ? doc.profiles.map((p: any) => ({ theme: "Default", suffixColors: false, ...p }))
+      : doc.profiles,
+  }),
+  // v3 replaced showWhere with a mode per container
+  2: (doc) => ({
+    ...doc,
+    version: 3,
+    profiles: Array.isArray(doc.profiles)
+      ? doc.profiles.map(({ showWhere, ...p }: any) => ({
+        ...p,
+        locations: p.locations ?? locationsFromShowWhere(SHOW_WHERE_OPTIONS.includes(showWhere) ? showWhere : "Bank+Bag(All)"),
+      }))
+      : doc.profiles,
+  }),
+  // v4 replaced the "dark" category with "gear"
+  3: (doc) => ({
+    ...doc,
+    version: 4,
+    profiles: Array.isArray(doc.profiles)
+      ? doc.profiles.map((p: any) => {
+        if (!p || typeof p !== "object") return p;
+        const { dark, ...categories } = p.categories ?? {};
+        return {
+          ...p,
+          categories: p.categories ? { ...categories, gear: categories.gear ?? dark } : p.categories,
+          categoryColors: typeof p.categoryColors === "string" ? p.categoryColors.replace(/\bdark(\s*=)/gi, "gear$1") : p.categoryColors,
+        };
+      })
+      : doc.profiles,
+  }),
+};
+
+/** Pass `pretty` for files; the compact form fits a settings text field. */
+export function exportProfiles(profiles: TagProfile[], pretty = false): string {
+  const doc: ProfileDocument = { format: PROFILE_FORMAT, version: PROFILE_VERSION, profiles };
+  return JSON.stringify(doc, null, pretty ? 2 : undefined);
+}
+
+export function importProfiles(json: string): ProfileImport {
+  let doc: any;
+  try {
+    doc = JSON.parse(json);
+  } catch (e) {
+    return { profiles: [], errors: [`Not valid JSON: ${(e as Error)?.message ?? e}`] };
+  }
+
+  let version = doc && typeof doc === "object" && doc.format === PROFILE_FORMAT ? Number(doc.version) : 0;
+  if (!Number.isInteger(version) || version < 0) {
+    return { profiles: [], errors: [`Unknown version: ${doc?.version}`] };
+  }
+  if (version > PROFILE_VERSION) {
+    return { profiles: [], errors: [`Version ${version} is newer than supported (${PROFILE_VERSION}); update ItemTags`] };
+  }
+  while (version < PROFILE_VERSION) {
+    doc = MIGRATIONS[version](doc);
+    version++;
+  }
+
+  if (!Array.isArray(doc.profiles)) {
+    return { profiles: [], errors: ["Missing 'profiles' array"] };
+  }
+
+  const profiles: TagProfile[] = [];
+  const errors: string[] = [];
+  doc.profiles.forEach((raw: any, i: number) => {
+    const problems = validateProfile(raw);
+    if (problems.length) {
+      errors.push(...problems.map((p) => `profiles[${i}]: ${p}`));
+    } else {
+      profiles.push(normalizeProfile(raw));
+    }
+  });
+  return { profiles, errors };
+}
+
+function validateProfile(raw: any): string[] {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") return ["not an object"];
+  if (typeof raw.name !== "string" || !raw.name.trim()) errors.push("'name' must be a non-empty string");
+  if (!raw.categories || typeof raw.categories !== "object") {
+    errors.push("'categories' must be an object");
+  } else {
+    for (const [k, v] of Object.entries(raw.categories)) {
+      if (!TAG_CATEGORIES.includes(k as TagCategory)) errors.push(`unknown category '${k}'`);
+      else if (typeof v !== "boolean") errors.push(`categories.${k} must be true or false`);
+    }
+  }
+  if (raw.locations != null) {
+    if (typeof raw.locations !== "object") {
+      errors.push("'locations' must be an object");
+    } else {
+      for (const [k, v] of Object.entries(raw.locations)) {
+        if (!CONTAINER_MODES.includes(v as ContainerMode)) errors.push(`locations.${k} must be one of ${CONTAINER_MODES.join(", ")}`);
+      }
+    }
+  }
+  if (raw.color?.value != null && !/^#[0-9a-f]{3,8}$/i.test(String(raw.color.value))) {
+    errors.push("'color.value' must be a hex color");
+  }
+  if (raw.theme != null && !TAG_THEMES.includes(raw.theme)) {
+    errors.push(`'theme' must be one of ${TAG_THEMES.join(", ")}`);
+  }
+  if (raw.categoryColors != null) {
+    if (typeof raw.categoryColors !== "string") errors.push("'categoryColors' must be a string");
+    else errors.push(...parseCategoryColors(raw.categoryColors).errors.map((e) => `categoryColors: ${e}`));
+  }
+  if (raw.customRules?.text != null && typeof raw.customRules.text !== "string") {
+    errors.push("'customRules.text' must be a string");
+  }
+  return errors;
+}
+
+/** Fills optional fields with defaults; assumes `validateProfile` passed. */
+function normalizeProfile(raw: any): TagProfile {
+  const base = BUILTIN_PROFILES[0];
+  return {
+    name: raw.name.trim(),
+    categories: { ...allCategories(false), ...raw.categories },
+    ignoreMagicalScrolls: !!(raw.ignoreMagicalScrolls ?? base.ignoreMagicalScrolls),
+    locations: { ...(raw.locations ?? base.locations) },
+    color: {
+      enabled: !!(raw.color?.enabled ?? base.color.enabled),
+      value: String(raw.color?.value ?? base.color.value),
+    },
+    theme: raw.theme ?? base.theme,
+    categoryColors: raw.categoryColors ?? undefined,
+    suffixColors: !!(raw.suffixColors ?? base.suffixColors),
+    customRules: raw.customRules
+      ? { enabled: !!(raw.customRules.enabled ?? true), text: raw.customRules.text ?? "" }
+      : undefined,
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { chainLinks, DEFAULT_RECIPES, isLinked, parseRecipes } from "./Recipes";
+
+const { chains } = parseRecipes(DEFAULT_RECIPES);
+
+/** Materials an item matched, one per chain step, as "chain source: material". */
+function materials(name: string, category: string | null = null): string[] {
+  return chainLinks(chains, name, category).map((l) => `${l.chain.source}: ${l.material}`);
+}
+
+/** Whether hovering `from` lights up `to`. */
+function linked(from: [string, string | null], to: [string, string | null]): boolean {
+  return isLinked(chainLinks(chains, ...from), ...to);
+}
+
+describe("parseRecipes", () => {
+  it("parses the default chains without errors", () => {
+    const parsed = parseRecipes(DEFAULT_RECIPES);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.chains).toHaveLength(5);
+  });
+
+  it("splits on lines and semicolons and skips comments", () => {
+    const parsed = parseRecipes("# ores\n{m} ore > {m} bar; a > b\n\n  ");
+    expect(parsed.chains.map((c) => c.source)).toEqual(["{m} ore > {m} bar", "a > b"]);
+  });
+
+  it("reads a category prefix per step", () => {
+    const [chain] = parseRecipes("{m} bar > Gear:{m} *").chains;
+    expect(chain.steps.map((s) => s.category)).toEqual([null, "gear"]);
+  });
+
+  it("reports lines with too few steps or several materials", () => {
+    expect(parseRecipes("iron ore\nore > \n{m} {m} > bar").errors).toEqual([
+      "Expected at least two steps joined by '>': iron ore",
+      "Expected at least two steps joined by '>': ore >",
+      "Only one {m} per step: {m} {m} > bar",
+    ]);
+  });
+
+  it("keeps the good lines when others fail", () => {
+    const parsed = parseRecipes("ore\n{m} logs > {m} scroll");
+    expect(parsed.chains).toHaveLength(1);
+    expect(parsed.errors).toHaveLength(1);
+  });
+});
+
+describe("chainLinks", () => {
+  it("captures the lower-cased material", () => {
+    expect(materials("Coronium Ore")).toEqual(["{m} ore > {m} bar > gear:{m} *: coronium"]);
+    expect(materials("Pine logs")).toEqual(["{m} logs > {m} scroll: pine", "{m} logs > unstrung {m} bow > {m} bow: pine"]);
+  });
+
+  it("honours step categories", () => {
+    expect(materials("Iron helmet", null)).toEqual([]);
+    expect(materials("Iron helmet", "gear")).toEqual(["{m} ore > {m} bar > gear:{m} *: iron"]);
+  });
+
+  it("matches a necklace with and without its optional word", () => {
+    expect(materials("Gold sapphire necklace", "jewelry")).toEqual([
+      "{m} nugget > {m} bar > jewelry:{m} *: gold",
+      "rough {m} > {m} gem > jewelry:[*] {m} *: sapphire",
+    ]);
+    expect(materials("Sapphire necklace", "jewelry")).toContain("rough {m} > {m} gem > jewelry:[*] {m} *: sapphire");
+  });
+
+  it("returns nothing without a name", () => {
+    expect(chainLinks(chains, null, "gear")).toEqual([]);
+  });
+});
+
+describe("isLinked", () => {
+  it("links items of one chain with the same material", () => {
+    expect(linked(["Iron ore", null], ["Iron bar", null])).toBe(true);
+    expect(linked(["Iron ore", null], ["Iron sword", "gear"])).toBe(true);
+    expect(linked(["Iron ore", null], ["Coronium bar", null])).toBe(false);
+  });
+
+  it("links rough gems to necklaces of that gem only", () => {
+    expect(linked(["Rough sapphire", null], ["Gold sapphire necklace", "jewelry"])).toBe(true);
+    expect(linked(["Rough sapphire", null], ["Silver sapphire necklace", "jewelry"])).toBe(true);
+    expect(linked(["Rough sapphire", null], ["Gold ruby necklace", "jewelry"])).toBe(false);
+  });
+
+  it("links nuggets to necklaces of that metal only", () => {
+    expect(linked(["Gold nugget", null], ["Gold sapphire necklace", "jewelry"])).toBe(true);
+    expect(linked(["Gold nugget", null], ["Gold necklace", "jewelry"])).toBe(true);
+    expect(linked(["Gold nugget", null], ["Silver necklace", "jewelry"])).toBe(false);
+  });
+
+  it("does not link items outside every chain", () => {
+    expect(linked(["Fishing rod", null], ["Fishing rod", null])).toBe(false);
+    expect(isLinked(chainLinks(chains, "Iron ore", null), null, null)).toBe(false);
+  });
+});
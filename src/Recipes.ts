@@ -0,0 +1,116 @@
+import { CategoryId } from "./TagEngine";
+
+/**
+ * Crafting chains
+ * --------------------------
+ * Items that are made from one another, so hovering one can light up the
+ * rest. One chain per line (or separated by `;`), steps joined by `>`:
+ *
+ *   {m} ore > {m} bar > gear:{m} *
+ *
+ * Steps are item names, case-insensitive. `*` matches any words and `{m}` the
+ * material, which must be the same across the chain: "Coronium Ore" links to
+ * "Coronium Bar" and every coronium gear piece, not to iron. A word in
+ * brackets is optional, so `[*] {m} *` finds the sapphire in both "Sapphire
+ * necklace" and "Gold sapphire necklace". A `category:`
+ * prefix limits a step to items tagged with that category. Lines starting
+ * with `#` are comments. User lines are added to `DEFAULT_RECIPES`.
+ */
+export interface RecipeStep {
+  category: CategoryId | null;
+  pattern: RegExp;
+}
+
+export interface RecipeChain {
+  steps: RecipeStep[];
+  /** The line it was parsed from, for error messages. */
+  source: string;
+}
+
+/** A chain an item belongs to, with the material it matched. */
+export interface ChainLink {
+  chain: RecipeChain;
+  material: string;
+}
+
+export const DEFAULT_RECIPES = [
+  "{m} ore > {m} bar > gear:{m} *",
+  "{m} nugget > {m} bar > jewelry:{m} *",
+  "{m} logs > {m} scroll",
+  "{m} logs > unstrung {m} bow > {m} bow",
+  "rough {m} > {m} gem > jewelry:[*] {m} *",
+].join("\n");
+
+export function parseRecipes(text: string): { chains: RecipeChain[]; errors: string[] } {
+  const chains: RecipeChain[] = [];
+  const errors: string[] = [];
+
+  for (const rawLine of (text || "").split(/[\n;]/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const parts = line.split(">").map((p) => p.trim());
+    if (parts.length < 2 || parts.some((p) => !p)) {
+      errors.push(`Expected at least two steps joined by '>': ${line}`);
+      continue;
+    }
+    const steps: RecipeStep[] = [];
+    for (const part of parts) {
+      const m = /^(?:([a-z][\w-]*):)?\s*(.+)$/i.exec(part)!;
+      if ((m[2].match(/\{m\}/gi) ?? []).length > 1) {
+        errors.push(`Only one {m} per step: ${line}`);
+        break;
+      }
+      steps.push({ category: m[1]?.toLowerCase() ?? null, pattern: stepPattern(m[2]) });
+    }
+    if (steps.length === parts.length) chains.push({ steps, source: line });
+  }
+
+  return { chains, errors };
+}
+
+/** Every chain step the item matches. */
+export function chainLinks(chains: readonly RecipeChain[], name: string | null, category: CategoryId | null): ChainLink[] {
+  if (!name) return [];
+  const links: ChainLink[] = [];
+  for (const chain of chains) {
+    for (const step of chain.steps) {
+      const material = matchStep(step, name, category);
+      if (material != null) links.push({ chain, material });
+    }
+  }
+  return links;
+}
+
+/** Whether the item is in one of `links`' chains with the same material. */
+export function isLinked(links: readonly ChainLink[], name: string | null, category: CategoryId | null): boolean {
+  if (!name) return false;
+  return links.some((l) => l.chain.steps.some((step) => matchStep(step, name, category) === l.material));
+}
+
+/** The lower-cased material, "" for steps without `{m}`, or null when the item does not match. */
+function matchStep(step: RecipeStep, name: string, category: CategoryId | null): string | null {
+  if (step.category && step.category !== category) return null;
+  const m = step.pattern.exec(name.trim());
+  return m ? (m[1] ?? "").toLowerCase() : null;
+}
+
+function stepPattern(step: string): RegExp {
+  let source = "";
+  let leading = true;
+  for (const word of step.split(/\s+/)) {
+    const optional = /^\[(.+)\]$/.exec(word);
+    const part = wordPattern(optional ? optional[1] : word);
+    // An optional word takes the whitespace that separates it along with it
+    if (optional) source += leading ? `(?:${part}\\s+)?` : `(?:\\s+${part})?`;
+    else source += leading ? part : `\\s+${part}`;
+    if (!optional) leading = false;
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+function wordPattern(word: string): string {
+  return word
+    .split(/(\{m\}|\*)/i)
+    .map((t) => (t.toLowerCase() === "{m}" ? "(.+?)" : t === "*" ? ".+" : t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+}
@@ -0,0 +1,53 @@
+/**
+ * Scan profiler
+ * --------------------------
+ * Collects timings of full and incremental rescans and reports a summary
+ * at most once per `intervalMs`, so enabling it does not flood the log.
+ */
+export type ScanKind = "full" | "incremental";
+
+interface ScanStats {
+  scans: number;
+  cells: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+export class ScanProfiler {
+  private stats: Record<ScanKind, ScanStats> = { full: emptyStats(), incremental: emptyStats() };
+  private lastReport = 0;
+
+  constructor(private readonly report: (line: string) => void, private readonly intervalMs = 5000) {}
+
+  record(kind: ScanKind, cells: number, ms: number) {
+    const s = this.stats[kind];
+    s.scans++;
+    s.cells += cells;
+    s.totalMs += ms;
+    s.maxMs = Math.max(s.maxMs, ms);
+
+    const now = performance.now();
+    if (now - this.lastReport >= this.intervalMs) this.flush(now);
+  }
+
+  reset() {
+    this.stats = { full: emptyStats(), incremental: emptyStats() };
+    this.lastReport = 0;
+  }
+
+  private flush(now: number) {
+    const parts = (Object.keys(this.stats) as ScanKind[])
+      .filter((k) => this.stats[k].scans > 0)
+      .map((k) => {
+        const s = this.stats[k];
+        return `${k}: ${s.scans} scans, ${s.cells} cells, avg ${(s.totalMs / s.scans).toFixed(2)} ms, max ${s.maxMs.toFixed(2)} ms`;
+      });
+    if (parts.length) this.report(`ItemTags scan times – ${parts.join("; ")}`);
+    this.stats = { full: emptyStats(), incremental: emptyStats() };
+    this.lastReport = now;
+  }
+}
+
+function emptyStats(): ScanStats {
+  return { scans: 0, cells: 0, totalMs: 0, maxMs: 0 };
+}
@@ -0,0 +1,72 @@
+import { TAG_CATEGORIES, TagCategory } from "./TagEngine";
+
+/**
+ * Tag colors
+ * --------------------------
+ * Colors reach the badge only through CSS variables consumed by
+ * resources/css/base.css, in this order of precedence:
+ *
+ *   --hs-item-tags-category-fg/-bg   per-category colors from settings
+ *   --hs-item-identifier-tag-fg      the global "Tag Color"
+ *   --hs-item-tags-theme-fg/-bg      set by the theme stylesheet rules
+ *   amount badge colors              the game's own fallback
+ *
+ * Per-category colors are written as `category=#fg[/#bg]`, separated by `;`
+ * or new lines, e.g. `potion=#ff66cc; ore=#d9a066/#202020`.
+ */
+export const TAG_THEMES = ["Default", "High Contrast", "Colorblind Safe", "Match Amount"];
+
+/** Value of the badge's `data-hs-tag-theme` attribute for a theme name. */
+export function themeAttr(theme: string): string {
+  return theme.toLowerCase().replace(/\s+/g, "-");
+}
+
+export interface CategoryColor {
+  fg: string;
+  bg: string | null;
+}
+
+export interface ParsedCategoryColors {
+  colors: Partial<Record<TagCategory | "custom", CategoryColor>>;
+  errors: string[];
+}
+
+const HEX = /^#[0-9a-f]{3,8}$/i;
+
+export function parseCategoryColors(text: string): ParsedCategoryColors {
+  const colors: ParsedCategoryColors["colors"] = {};
+  const errors: string[] = [];
+
+  for (const rawEntry of (text || "").split(/[\n;]/)) {
+    const entry = rawEntry.trim();
+    if (!entry) continue;
+    const m = /^([a-z]+)\s*=\s*([^/\s]+)(?:\s*\/\s*(\S+))?$/i.exec(entry);
+    if (!m) {
+      errors.push(`Expected 'category=#fg[/#bg]': ${entry}`);
+      continue;
+    }
+    const category = m[1].toLowerCase() as TagCategory | "custom";
+    if (category !== "custom" && !TAG_CATEGORIES.includes(category)) {
+      errors.push(`Unknown category '${m[1]}'`);
+      continue;
+    }
+    if (!HEX.test(m[2]) || (m[3] && !HEX.test(m[3]))) {
+      errors.push(`Colors must be hex, e.g. #ff66cc: ${entry}`);
+      continue;
+    }
+    colors[category] = { fg: m[2], bg: m[3] ?? null };
+  }
+
+  return { colors, errors };
+}
+
+export type SuffixKind = "dose" | "gold" | "silver" | "unstrung" | "other";
+
+/** Classifies a tag suffix so the stylesheet can color it on its own. */
+export function suffixKind(suffix: string): SuffixKind {
+  if (/^\(\d+\)$/.test(suffix)) return "dose";
+  if (suffix === "(g)") return "gold";
+  if (suffix === "(s)") return "silver";
+  if (suffix === "(u)") return "unstrung";
+  return "other";
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  BAR_TAGS, BOW_TAGS, EN, GEAR_SLOTS, GEAR_SPECIAL, GEAR_TIERS, GEM_TAGS, LOG_TAGS, ORE_TAGS, POTION_TAGS, ROOT_TAGS,
+  SCROLL_MAGICAL, SCROLL_TAGS,
+} from "./locales/en";
+import { buildIdTags, DeriveOptions, deriveTag, formatTag, TAG_CATEGORIES, TagCategory } from "./TagEngine";
+
+const ALL: DeriveOptions = { enabled: new Set<TagCategory>(TAG_CATEGORIES), locale: EN };
+const GEAR_ONLY: DeriveOptions = { ...ALL, allowed: new Set<TagCategory>(["gear", "jewelry", "potion"]) };
+
+/** "Stam (3)", or null when the item gets no tag. */
+function tag(name: string, options: DeriveOptions = ALL): string | null {
+  const result = deriveTag(name, options);
+  return result ? formatTag(result) : null;
+}
+
+function category(name: string): string | null {
+  return deriveTag(name, ALL)?.category ?? null;
+}
+
+describe("deriveTag with the English pack", () => {
+  it("tags potions with their doses", () => {
+    expect(tag("Potion of Stamina (3)")).toBe("Stam (3)");
+    expect(tag("Potion of Mischief (1)")).toBe("Crim (1)");
+    expect(tag("Potion of Strength (2)")).toBe("Str (2)");
+    for (const [key, text] of Object.entries(POTION_TAGS)) {
+      expect(tag(`Potion of ${key} (4)`)).toBe(`${text} (4)`);
+    }
+  });
+
+  it("tags strung and unstrung bows", () => {
+    expect(tag("Unstrung pine bow")).toBe("Pine (u)");
+    for (const [key, text] of Object.entries(BOW_TAGS)) {
+      expect(tag(`${key} bow`)).toBe(text);
+      expect(tag(`Unstrung ${key} bow`)).toBe(`${text} (u)`);
+    }
+  });
+
+  it("tags gold and silver necklaces by gem", () => {
+    expect(tag("Gold sapphire necklace")).toBe("Sap (g)");
+    expect(tag("Sapphire necklace")).toBe("Sap (s)");
+    expect(tag("Monk's necklace")).toBe("Monk");
+    expect(tag("Necklace mould")).toBeNull();
+    for (const [key, text] of Object.entries(GEM_TAGS)) {
+      expect(tag(`Gold ${key} necklace`)).toBe(`${text} (g)`);
+      expect(tag(`${key} necklace`)).toBe(`${text} (s)`);
+    }
+  });
+
+  it("tags rough and cut gems", () => {
+    for (const [key, text] of Object.entries(GEM_TAGS)) {
+      expect(tag(`Rough ${key}`)).toBe(text);
+      expect(tag(`${key} gem`)).toBe(text);
+    }
+  });
+
+  it("tags ores and nuggets, and bars except pig iron", () => {
+    expect(tag("Coal")).toBe("Coal");
+    expect(tag("Gold nugget")).toBe("Gold");
+    expect(tag("Silver nugget")).toBe("Silv");
+    expect(tag("Pig iron bar")).toBeNull();
+    for (const [key, text] of Object.entries(ORE_TAGS)) expect(tag(`${key} ore`)).toBe(text);
+    for (const [key, text] of Object.entries(BAR_TAGS)) expect(tag(`${key} bar`)).toBe(text);
+  });
+
+  it("tags logs, roots and scrolls, with Norm for the plain item", () => {
+    expect(tag("Logs")).toBe("Norm");
+    expect(tag("Scroll")).toBe("Norm");
+    for (const [key, text] of Object.entries(LOG_TAGS)) expect(tag(`${key} logs`)).toBe(text);
+    for (const [key, text] of Object.entries(ROOT_TAGS)) expect(tag(`${key} root`)).toBe(text);
+    for (const [key, text] of Object.entries(SCROLL_TAGS)) expect(tag(`${key} scroll`)).toBe(text);
+  });
+
+  it("tags magical scrolls unless ignoreMagicalScrolls is set", () => {
+    expect(tag("Fire scroll")).toBe("Fire");
+    expect(tag("Fire scroll", { ...ALL, ignoreMagicalScrolls: true })).toBeNull();
+    for (const [key, text] of Object.entries(SCROLL_MAGICAL)) {
+      expect(tag(`${key} scroll`)).toBe(text);
+      expect(tag(`${key} scroll`, { ...ALL, ignoreMagicalScrolls: true })).toBeNull();
+    }
+  });
+
+  it("tags gear by tier and slot, and named gear by name", () => {
+    expect(tag("Iron scimitar")).toBe("Iron Scim");
+    expect(tag("Celadium helm")).toBe("Cela Helm");
+    expect(tag("Coronium full helm")).toBe("Coro Fhelm");
+    for (const [key, text] of Object.entries(GEAR_SPECIAL)) expect(tag(key)).toBe(text);
+    for (const [tier, tierText] of Object.entries(GEAR_TIERS)) {
+      for (const [slot, slotText] of Object.entries(GEAR_SLOTS)) {
+        expect(tag(`${tier} ${slot}`)).toBe(`${tierText} ${slotText}`);
+        expect(category(`${tier} ${slot}`)).toBe("gear");
+      }
+    }
+  });
+
+  it("falls back to the first three letters for unlisted names", () => {
+    expect(tag("Mithril ore")).toBe("Mit");
+    expect(tag("Oak logs")).toBe("Oak");
+  });
+
+  it("leaves other items untagged", () => {
+    expect(tag("Bread")).toBeNull();
+    expect(tag("")).toBeNull();
+  });
+
+  it("only tags gear, jewelry and potions in Gear Only", () => {
+    expect(tag("Pine logs", GEAR_ONLY)).toBeNull();
+    expect(tag("Iron bar", GEAR_ONLY)).toBeNull();
+    expect(tag("Iron scimitar", GEAR_ONLY)).toBe("Iron Scim");
+    expect(tag("Gold sapphire necklace", GEAR_ONLY)).toBe("Sap (g)");
+    expect(tag("Potion of Stamina (3)", GEAR_ONLY)).toBe("Stam (3)");
+  });
+
+  it("skips disabled categories", () => {
+    expect(tag("Pine logs", { ...ALL, enabled: new Set<TagCategory>(["bar"]) })).toBeNull();
+  });
+});
+
+describe("the ID table", () => {
+  const idTags = buildIdTags(
+    [[101, "Pine logs"], [102, "Potion of Stamina (3)"], [103, "Pig iron bar"], [104, "Fire scroll"], [105, "Bread"]],
+    EN,
+    { ignoreMagicalScrolls: true },
+  );
+  const WITH_IDS: DeriveOptions = { ...ALL, idTags };
+
+  it("holds what the name rules make of each definition", () => {
+    expect(idTags.get(101)).toEqual({ category: "logs", text: "Pine", suffix: null });
+    expect(idTags.get(102)).toEqual({ category: "potion", text: "Stam", suffix: "(3)" });
+    expect(idTags.has(103)).toBe(false);
+    expect(idTags.has(104)).toBe(false);
+    expect(idTags.has(105)).toBe(false);
+  });
+
+  it("wins over a name match", () => {
+    const result = deriveTag("Oak logs", WITH_IDS, 101);
+    expect(result && formatTag(result)).toBe("Pine");
+    expect(result?.source).toEqual({ kind: "id", detail: "#101" });
+  });
+
+  it("still tags a renamed item by its ID", () => {
+    expect(deriveTag("Stamina draught", WITH_IDS, 102)?.text).toBe("Stam");
+    expect(deriveTag("Stamina draught", WITH_IDS)).toBeNull();
+  });
+
+  it("is all that applies without a locale pack", () => {
+    const noPack: DeriveOptions = { ...WITH_IDS, locale: null };
+    expect(deriveTag("Pinien-Holzscheite", noPack, 101)?.text).toBe("Pine");
+    expect(deriveTag("Oak logs", noPack, 999)).toBeNull();
+  });
+
+  it("respects disabled categories and Gear Only", () => {
+    expect(deriveTag("Pine logs", { ...WITH_IDS, enabled: new Set<TagCategory>(["bar"]) }, 101)).toBeNull();
+    expect(deriveTag("Pine logs", { ...GEAR_ONLY, idTags }, 101)).toBeNull();
+    expect(deriveTag("Potion of Stamina (3)", { ...GEAR_ONLY, idTags }, 102)?.text).toBe("Stam");
+  });
+});
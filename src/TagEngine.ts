@@ -0,0 +1,271 @@
+import { matchUserRule, UserRule } from "./UserRules";
+
+/**
+ * Tag engine
+ * --------------------------
+ * Pure item → tag derivation, independent of the plugin and the DOM.
+ * Lookup order: user rules, then the ID table by item definition ID, then the
+ * name rules of the active locale pack (see locales/). For names, the first
+ * rule whose pattern matches and whose category is enabled decides the
+ * outcome, so order matters (e.g. named gear before tier gear, necklace moulds
+ * before necklaces). Without a locale pack only ID matching applies.
+ *
+ * The ID table is built by `buildIdTags` from the client's item definitions,
+ * so an item keeps its tag when the name it is shown under changes.
+ *
+ * Tag providers registered by other plugins (see Api.ts) slot into this
+ * order by priority: above `USER_RULE_PRIORITY` they run before user rules,
+ * above `BUILT_IN_PRIORITY` before the built-in tags, otherwise last.
+ */
+export type TagCategory =
+  | "gear"
+  | "potion"
+  | "logs"
+  | "root"
+  | "scroll"
+  | "bow"
+  | "ore"
+  | "bar"
+  | "jewelry"
+  | "gem";
+
+export const TAG_CATEGORIES: TagCategory[] = [
+  "gear", "potion", "logs", "root", "scroll", "bow", "ore", "bar", "jewelry", "gem",
+];
+
+/** A built-in category, `custom`, or the id of a provider's category. */
+export type CategoryId = TagCategory | "custom" | (string & {});
+
+/** Short category names, e.g. for a second badge or summaries. */
+export const CATEGORY_LABELS: Record<TagCategory | "custom", string> = {
+  gear: "Gear", potion: "Pot", logs: "Log", root: "Root", scroll: "Scrl",
+  bow: "Bow", ore: "Ore", bar: "Bar", jewelry: "Jwl", gem: "Gem", custom: "Cust",
+};
+
+/** Full category names for panels and tooltips. */
+export const CATEGORY_NAMES: Record<TagCategory | "custom", string> = {
+  gear: "Gear", potion: "Potion", logs: "Logs", root: "Root", scroll: "Scroll",
+  bow: "Bow", ore: "Ore", bar: "Bar", jewelry: "Jewelry", gem: "Gem", custom: "Custom",
+};
+
+export interface TagResult {
+  /** `custom` when a user rule produced the tag, the provider's id when a provider did. */
+  category: CategoryId;
+  /** Abbreviation, e.g. "Stam", "C Chain", "Sap". */
+  text: string;
+  /** Trailing qualifier such as "(3)", "(u)", "(g)" or "(s)"; null when absent. */
+  suffix: string | null;
+  /** How the tag was produced; set by `deriveTag`. */
+  source?: TagSource;
+}
+
+/**
+ * `user`: a custom rule; `id`: the ID table; `table`: a locale table entry or a
+ * rule's fixed tag; `generated`: a generated abbreviation; `fallback`: the
+ * first letters of the part a category pattern matched; `provider`: another
+ * plugin's tag provider.
+ */
+export type TagSourceKind = "user" | "id" | "table" | "generated" | "fallback" | "provider";
+
+export interface TagSource {
+  kind: TagSourceKind;
+  /** The user rule's matcher, `#id`, the locale rule's pattern or the provider's id. */
+  detail: string;
+}
+
+export interface DeriveOptions {
+  /** Categories the user has switched on. */
+  enabled: ReadonlySet<TagCategory>;
+  /** Optional allow-list; a matching but disallowed category yields no tag. */
+  allowed?: ReadonlySet<CategoryId>;
+  ignoreMagicalScrolls?: boolean;
+  /** Checked before the built-in rules and not subject to `allowed`. */
+  userRules?: UserRule[];
+  /** Name rules for the client language; null limits matching to IDs. */
+  locale: LocalePack | null;
+  /** Built-in tags by item definition ID, checked before the name rules. */
+  idTags?: IdTagTable;
+  /** Other plugins' providers, highest priority first. */
+  providers?: readonly TagProvider[];
+  /** Generated abbreviations per category, consulted when a locale table has no entry. */
+  abbreviations?: Partial<Record<TagCategory, AbbreviationLookup>>;
+}
+
+/** A built-in tag for one item definition ID. */
+export interface IdTag {
+  category: TagCategory;
+  text: string;
+  suffix: string | null;
+}
+
+export type IdTagTable = ReadonlyMap<number, IdTag>;
+
+/** Read side of a generated abbreviation table, keyed by the lower-cased name part. */
+export interface AbbreviationLookup {
+  get(key: string): string | undefined;
+}
+
+export interface TagRule {
+  category: TagCategory;
+  pattern: RegExp;
+  /** Returning null suppresses the tag; later rules are not tried. */
+  derive: (m: RegExpExecArray, options: DeriveOptions) => Omit<TagResult, "category"> | null;
+}
+
+export const USER_RULE_PRIORITY = 1000;
+export const BUILT_IN_PRIORITY = 0;
+
+/** Tags for one extra category, supplied by another plugin. */
+export interface TagProvider {
+  /** Category id, used as the badge's `data-category`; must not be a built-in category or `custom`. */
+  id: string;
+  /** Short name for filter chips and the category badge, like `CATEGORY_LABELS`. */
+  label: string;
+  /** Higher runs first; see the module comment for where built-in tags fall. */
+  priority: number;
+  /** Tag for the item, or null to leave it to the next source. */
+  derive(name: string | null, id: number | null): { text: string; suffix?: string | null } | null;
+}
+
+/** Category patterns and abbreviation tables for one client language. */
+export interface LocalePack {
+  /** BCP 47 language tag, e.g. "en" or "pt-BR". */
+  id: string;
+  /** Name shown in settings, in the pack's own language. */
+  name: string;
+  rules: TagRule[];
+}
+
+// ---------- Derivation ----------
+export function deriveTag(name: string | null, options: DeriveOptions, id: number | null = null): TagResult | null {
+  const n = (name || "").trim();
+  if (!n && id == null) return null;
+
+  const providers = options.providers ?? [];
+  const early = provide(providers, n, id, options, (p) => p > USER_RULE_PRIORITY);
+  if (early !== undefined) return early;
+
+  if (options.userRules?.length) {
+    const rule = matchUserRule(options.userRules, n, id);
+    if (rule) return { category: "custom", text: rule.tag, suffix: null, source: { kind: "user", detail: rule.pattern } };
+  }
+
+  const before = provide(providers, n, id, options, (p) => p > BUILT_IN_PRIORITY && p <= USER_RULE_PRIORITY);
+  if (before !== undefined) return before;
+
+  const builtIn = deriveBuiltIn(n, id, options);
+  if (builtIn !== undefined) return builtIn;
+
+  return provide(providers, n, id, options, (p) => p <= BUILT_IN_PRIORITY) ?? null;
+}
+
+/** ID table, then locale rules; undefined when nothing matched, null when a match suppressed the tag. */
+function deriveBuiltIn(n: string, id: number | null, options: DeriveOptions): TagResult | null | undefined {
+  const byId = id != null ? options.idTags?.get(id) : undefined;
+  if (byId && options.enabled.has(byId.category)) {
+    if (options.allowed && !options.allowed.has(byId.category)) return null;
+    return { ...byId, source: { kind: "id", detail: `#${id}` } };
+  }
+
+  if (!n || !options.locale) return undefined;
+  for (const rule of options.locale.rules) {
+    if (!options.enabled.has(rule.category)) continue;
+    const m = rule.pattern.exec(n);
+    if (!m) continue;
+    if (options.allowed && !options.allowed.has(rule.category)) return null;
+
+    // `lookup` only asks for a generated abbreviation after a table miss
+    let kind: TagSourceKind = "table";
+    const generated = options.abbreviations?.[rule.category];
+    const tracked: AbbreviationLookup = {
+      get: (key) => {
+        const abbr = generated?.get(key);
+        kind = abbr ? "generated" : "fallback";
+        return abbr;
+      },
+    };
+    const derived = rule.derive(m, { ...options, abbreviations: { ...options.abbreviations, [rule.category]: tracked } });
+    return derived ? { category: rule.category, ...derived, source: { kind, detail: `/${rule.pattern.source}/` } } : null;
+  }
+
+  return undefined;
+}
+
+/**
+ * ID table for `items` (definition ID and name): what `locale` makes of each
+ * name with every category on. Items the rules leave untagged get no entry.
+ */
+export function buildIdTags(
+  items: Iterable<readonly [number, string]>,
+  locale: LocalePack,
+  options: Pick<DeriveOptions, "ignoreMagicalScrolls" | "abbreviations"> = {},
+): Map<number, IdTag> {
+  const table = new Map<number, IdTag>();
+  const derive: DeriveOptions = { ...options, enabled: new Set(TAG_CATEGORIES), locale };
+  for (const [id, name] of items) {
+    const tag = deriveTag(name, derive);
+    if (tag && isTagCategory(tag.category)) table.set(id, { category: tag.category, text: tag.text, suffix: tag.suffix });
+  }
+  return table;
+}
+
+/** First provider in the priority band with a tag for the item; a provider that throws is skipped. */
+function provide(
+  providers: readonly TagProvider[],
+  n: string,
+  id: number | null,
+  options: DeriveOptions,
+  inBand: (priority: number) => boolean,
+): TagResult | null | undefined {
+  for (const p of providers) {
+    if (!inBand(p.priority)) continue;
+    let derived: ReturnType<TagProvider["derive"]> = null;
+    try {
+      derived = p.derive(n || null, id);
+    } catch {}
+    if (!derived?.text) continue;
+    if (options.allowed && !options.allowed.has(p.id)) return null;
+    return { category: p.id, text: derived.text, suffix: derived.suffix ?? null, source: { kind: "provider", detail: p.id } };
+  }
+  return undefined;
+}
+
+export function isTagCategory(category: CategoryId): category is TagCategory {
+  return (TAG_CATEGORIES as string[]).includes(category);
+}
+
+/** Display form: capitalise each word of built-in tags; user and provider tags are shown verbatim. */
+export function formatTag(result: TagResult): string {
+  const text = formatTagText(result);
+  return result.suffix ? `${text} ${result.suffix}` : text;
+}
+
+/** Display form of the text alone, for callers that render the suffix separately. */
+export function formatTagText(result: TagResult): string {
+  if (!isTagCategory(result.category)) return result.text;
+  return result.text
+    .split(/\s+/)
+    .map((tok) => (tok ? tok.charAt(0).toUpperCase() + tok.slice(1).toLowerCase() : tok))
+    .join(" ");
+}
+
+// ---------- Helpers for locale packs ----------
+export const plain = (text: string): Omit<TagResult, "category"> => ({ text, suffix: null });
+
+/** Table abbreviation for `key`, then the generated one, falling back to its first three letters. */
+export function lookup(table: Record<string, string>, key: string, generated?: AbbreviationLookup): string {
+  const k = key.trim();
+  const lower = k.toLowerCase();
+  return table[lower] || generated?.get(lower) || capitalize3(k);
+}
+
+/** First three characters, first one upper-cased; counts code points so non-Latin text is not split. */
+export function capitalize3(s: string): string {
+  const chars = Array.from(s.trim()).slice(0, 3);
+  if (!chars.length) return "";
+  return chars[0].toLocaleUpperCase() + chars.slice(1).join("").toLocaleLowerCase();
+}
+
+export function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,55 @@
+import { CATEGORY_LABELS, TagCategory } from "./TagEngine";
+
+/**
+ * Category toggle bar
+ * --------------------------
+ * One button per built-in category, floating over the bank's top-right
+ * corner. Buttons only report clicks; the plugin flips the matching `show*`
+ * setting and passes the new states back through `mount`.
+ */
+export class CategoryToggleBar {
+  private bar: HTMLElement | null = null;
+
+  constructor(private readonly onToggle: (category: TagCategory) => void) {}
+
+  /** Places the bar over `table`'s container, rebuilding it when the states changed. */
+  mount(table: HTMLElement, enabled: ReadonlySet<TagCategory>, categories: readonly TagCategory[]) {
+    const key = categories.map((c) => `${c}:${enabled.has(c) ? 1 : 0}`).join(",");
+    const parent = table.parentElement;
+    if (!parent) return;
+    if (this.bar?.isConnected && this.bar.parentElement === parent && this.bar.dataset.states === key) return;
+    this.bar?.remove();
+
+    const bar = document.createElement("div");
+    bar.className = "hs-item-tags-toggles";
+    bar.setAttribute("data-hs-tag-ui", "true");
+    bar.dataset.states = key;
+
+    for (const c of categories) {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.className = "hs-item-tags-toggles__button";
+      button.textContent = CATEGORY_LABELS[c];
+      button.title = `Toggle ${CATEGORY_LABELS[c]} tags`;
+      button.setAttribute("data-category", c);
+      button.toggleAttribute("data-enabled", enabled.has(c));
+      button.addEventListener("click", (ev) => {
+        ev.stopPropagation();
+        this.onToggle(c);
+      });
+      bar.appendChild(button);
+    }
+
+    // Anchor to the bank container without moving its content
+    try {
+      if (getComputedStyle(parent).position === "static") parent.style.position = "relative";
+    } catch {}
+    parent.appendChild(bar);
+    this.bar = bar;
+  }
+
+  unmount() {
+    this.bar?.remove();
+    this.bar = null;
+  }
+}
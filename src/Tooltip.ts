@@ -0,0 +1,70 @@
+import { categoryName } from "./Api";
+import { formatTag, TagResult, TagSourceKind } from "./TagEngine";
+
+/**
+ * Tag tooltip
+ * --------------------------
+ * Explains a badge: the full item name, its category and the rule that
+ * produced the tag. Badges ignore the pointer so clicks reach the game; the
+ * plugin tracks hovering over the cell instead and positions this next to it.
+ */
+const SOURCE_LABELS: Record<TagSourceKind, string> = {
+  user: "Custom rule",
+  id: "Built-in item ID",
+  table: "Built-in table",
+  generated: "Generated abbreviation",
+  fallback: "Category pattern, first letters",
+  provider: "Plugin",
+};
+
+export class TagTooltip {
+  private el: HTMLElement | null = null;
+
+  show(anchor: HTMLElement, name: string | null, tag: TagResult) {
+    const el = this.el?.isConnected ? this.el : this.create();
+    const rows: Array<[string, string]> = [
+      ["Tag", formatTag(tag)],
+      ["Category", categoryName(tag.category)],
+    ];
+    if (tag.source) rows.push(["Rule", `${SOURCE_LABELS[tag.source.kind]} ${tag.source.detail}`]);
+
+    el.replaceChildren();
+    const title = document.createElement("div");
+    title.className = "hs-item-tags-tooltip__title";
+    title.textContent = name ?? "Unknown item";
+    el.appendChild(title);
+    for (const [label, value] of rows) {
+      const row = document.createElement("div");
+      row.className = "hs-item-tags-tooltip__row";
+      const l = document.createElement("span");
+      l.textContent = label;
+      const v = document.createElement("span");
+      v.textContent = value;
+      row.append(l, v);
+      el.appendChild(row);
+    }
+
+    // Right of the cell, flipped left or up when it would leave the viewport
+    const r = anchor.getBoundingClientRect();
+    const w = el.offsetWidth;
+    const h = el.offsetHeight;
+    const left = r.right + 6 + w > window.innerWidth ? r.left - 6 - w : r.right + 6;
+    const top = Math.min(r.top, window.innerHeight - h - 4);
+    el.style.left = `${Math.max(0, left)}px`;
+    el.style.top = `${Math.max(0, top)}px`;
+  }
+
+  hide() {
+    this.el?.remove();
+    this.el = null;
+  }
+
+  private create(): HTMLElement {
+    const el = document.createElement("div");
+    el.className = "hs-item-tags-tooltip";
+    el.setAttribute("data-hs-tag-ui", "true");
+    document.body.appendChild(el);
+    this.el = el;
+    return el;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { matchUserRule, parseUserRules } from "./UserRules";
+
+/** Tag of the first rule in `text` matching the item, or null. */
+function tagFor(text: string, name: string | null, id: number | null = null): string | null {
+  return matchUserRule(parseUserRules(text).rules, name, id)?.tag ?? null;
+}
+
+describe("parseUserRules", () => {
+  it("reads one rule per line or per ';', skipping blanks and comments", () => {
+    const { rules, errors } = parseUserRules("# my rules\n\nPine logs = Tree; *dagger = Dag\n/cape$/ = Cape\n#12 = Key");
+    expect(errors).toEqual([]);
+    expect(rules.map((r) => [r.kind, r.pattern, r.tag])).toEqual([
+      ["exact", "Pine logs", "Tree"],
+      ["wildcard", "*dagger", "Dag"],
+      ["regex", "/cape$/", "Cape"],
+      ["id", "#12", "Key"],
+    ]);
+  });
+
+  it("takes the tag after the last '='", () => {
+    expect(parseUserRules("/a=b/ = A=B").rules[0]).toMatchObject({ pattern: "/a=b/ = A", tag: "B" });
+  });
+
+  it("reports lines it cannot use", () => {
+    expect(parseUserRules("Pine logs").errors).toEqual(['Missing "= tag" in rule: Pine logs']);
+    expect(parseUserRules("Pine logs =").errors).toEqual(["Empty matcher or tag in rule: Pine logs ="]);
+    expect(parseUserRules("#5-2 = X").errors).toEqual(['Invalid pattern "#5-2": range end 2 is below start 5']);
+    expect(parseUserRules("#abc1 = X").errors).toEqual([]);
+    expect(parseUserRules("#1a = X").errors).toEqual(['Invalid pattern "#1a": expected #id or #from-to']);
+    expect(parseUserRules("/(/ = X").errors[0]).toMatch(/^Invalid pattern "\/\(\/": /);
+    expect(parseUserRules("/a/q = X").errors[0]).toMatch(/^Invalid pattern "\/a\/q": /);
+  });
+});
+
+describe("matchUserRule", () => {
+  it("matches exact names regardless of case and surrounding space", () => {
+    expect(tagFor("Pine logs = Tree", "  PINE LOGS ")).toBe("Tree");
+    expect(tagFor("Pine logs = Tree", "Pine logs (u)")).toBeNull();
+  });
+
+  it("matches wildcards against the whole name", () => {
+    expect(tagFor("*dagger = Dag", "Iron dagger")).toBe("Dag");
+    expect(tagFor("*dagger = Dag", "Iron dagger (p)")).toBeNull();
+    expect(tagFor("Potion of ?trength* = S", "Potion of Strength (2)")).toBe("S");
+    expect(tagFor("a.b* = Dot", "axb")).toBeNull();
+  });
+
+  it("matches regular expressions, case-insensitive unless flags are given", () => {
+    expect(tagFor("/cape$/ = Cape", "Red CAPE")).toBe("Cape");
+    expect(tagFor("/cape$/m = Cape", "Red CAPE")).toBeNull();
+  });
+
+  it("drops g and y so a rule matches every item, not every other one", () => {
+    const { rules } = parseUserRules("/logs/gi = L; /^O/y = O");
+    for (let i = 0; i < 3; i++) {
+      expect(matchUserRule(rules, "Pine logs")?.tag).toBe("L");
+      expect(matchUserRule(rules, "Oak")?.tag).toBe("O");
+    }
+  });
+
+  it("matches item IDs and inclusive ID ranges", () => {
+    expect(tagFor("#1234 = Key", null, 1234)).toBe("Key");
+    expect(tagFor("#1234 = Key", "Key", null)).toBeNull();
+    expect(tagFor("#100-120 = Rune", null, 100)).toBe("Rune");
+    expect(tagFor("#100-120 = Rune", null, 120)).toBe("Rune");
+    expect(tagFor("#100-120 = Rune", null, 121)).toBeNull();
+  });
+
+  it("lets the first matching rule win", () => {
+    expect(tagFor("*logs = Any; Pine logs = Pine", "Pine logs")).toBe("Any");
+    expect(tagFor("Bread = B", "")).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * User-defined tag rules
+ * --------------------------
+ * Rules are written one per line (or separated by `;`) as `<matcher> = <tag>`:
+ *
+ *   coronium chainmail body = C Chain     exact name (case-insensitive)
+ *   *dagger = Dag                         wildcard (`*` any run, `?` one char)
+ *   /^(.+) cape$/i = Cape                 regular expression
+ *   #1234 = Key                           item definition ID
+ *   #100-120 = Rune                       inclusive item definition ID range
+ *
+ * The tag is everything after the last `=` and is displayed verbatim.
+ * Blank lines and `#` comments (a `#` not followed by a digit) are ignored.
+ */
+export type UserRuleKind = "exact" | "wildcard" | "regex" | "id";
+
+export interface UserRule {
+  kind: UserRuleKind;
+  pattern: string;
+  tag: string;
+  test: (name: string, id: number | null) => boolean;
+}
+
+export interface ParsedUserRules {
+  rules: UserRule[];
+  errors: string[];
+}
+
+export function parseUserRules(text: string): ParsedUserRules {
+  const rules: UserRule[] = [];
+  const errors: string[] = [];
+
+  for (const rawLine of (text || "").split(/[\n;]/)) {
+    const line = rawLine.trim();
+    if (!line || /^#(?!\s*\d)/.test(line)) continue;
+
+    const eq = line.lastIndexOf("=");
+    if (eq <= 0) {
+      errors.push(`Missing "= tag" in rule: ${line}`);
+      continue;
+    }
+    const pattern = line.slice(0, eq).trim();
+    const tag = line.slice(eq + 1).trim();
+    if (!pattern || !tag) {
+      errors.push(`Empty matcher or tag in rule: ${line}`);
+      continue;
+    }
+
+    try {
+      rules.push(compileRule(pattern, tag));
+    } catch (e) {
+      errors.push(`Invalid pattern "${pattern}": ${(e as Error)?.message ?? e}`);
+    }
+  }
+
+  return { rules, errors };
+}
+
+/** First matching rule wins, so more specific rules should be listed first. */
+export function matchUserRule(rules: UserRule[], name: string | null, id: number | null = null): UserRule | null {
+  const n = (name || "").trim();
+  for (const rule of rules) {
+    if (rule.test(n, id)) return rule;
+  }
+  return null;
+}
+
+function compileRule(pattern: string, tag: string): UserRule {
+  const idMatch = /^#\s*(\d+)(?:\s*-\s*(\d+))?$/.exec(pattern);
+  if (idMatch) {
+    const lo = parseInt(idMatch[1], 10);
+    const hi = idMatch[2] ? parseInt(idMatch[2], 10) : lo;
+    if (hi < lo) throw new Error(`range end ${hi} is below start ${lo}`);
+    return { kind: "id", pattern, tag, test: (_n, id) => id != null && id >= lo && id <= hi };
+  }
+  if (pattern.startsWith("#")) throw new Error("expected #id or #from-to");
+
+  const regexLiteral = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regexLiteral) {
+    // `g` and `y` make test() stateful through lastIndex, so every other item would miss
+    const re = new RegExp(regexLiteral[1], (regexLiteral[2] || "i").replace(/[gy]/g, ""));
+    return { kind: "regex", pattern, tag, test: (n) => !!n && re.test(n) };
+  }
+
+  if (/[*?]/.test(pattern)) {
+    const source = pattern
+      .split("")
+      .map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+      .join("");
+    const re = new RegExp(`^${source}$`, "i");
+    return { kind: "wildcard", pattern, tag, test: (n) => !!n && re.test(n) };
+  }
+
+  const exact = pattern.toLowerCase();
+  return { kind: "exact", pattern, tag, test: (n) => !!n && n.toLowerCase() === exact };
+}
@@ -0,0 +1,152 @@
+/**
+ * Fake game
+ * --------------------------
+ * A stand-in for the client's `EntityManager.Instance` with the hook paths
+ * Containers.ts reads. Each hook takes one of the subscription shapes the
+ * plugin understands; the defaults spread them over the containers so one
+ * game exercises all of them:
+ *
+ *   bag        Inventory.OnInventoryChangeListener   add / remove
+ *   bank       BankStorageItems listeners             add / remove
+ *              _bankItems                             OnItemsChanged.Subscribe
+ *   shop       _currentState._shopItems               on / off
+ *   equipment  Loadout                                OnChange.Subscribe
+ *   trade      _currentState._tradeItems              addEventListener
+ *
+ * Items carry only what the plugin resolves: `_id`, `_amount` and a
+ * definition name. `definitions` is the client's item definition map, empty
+ * until a test fills it.
+ */
+export interface FakeItem {
+  _id: number;
+  _amount: number;
+  _def: { _name: string };
+}
+
+export type HookShape = "listener" | "onChange" | "onItemsChanged" | "emitter" | "eventTarget";
+
+export const HOOK_SHAPES: HookShape[] = ["listener", "onChange", "onItemsChanged", "emitter", "eventTarget"];
+
+type Handler = (...args: any[]) => void;
+
+/** One change hook; `api` is what gets mixed into the game object that owns it. */
+export class FakeHook {
+  private handlers = new Map<unknown, Handler>();
+  private nextToken = 1;
+  readonly api: Record<string, unknown>;
+
+  constructor(readonly shape: HookShape) {
+    const observable = {
+      Subscribe: (fn: Handler) => {
+        const token = this.nextToken++;
+        this.handlers.set(token, fn);
+        return token;
+      },
+      Unsubscribe: (token: number) => this.handlers.delete(token),
+    };
+    const apis: Record<HookShape, Record<string, unknown>> = {
+      listener: { add: (fn: Handler) => this.handlers.set(fn, fn), remove: (fn: Handler) => this.handlers.delete(fn) },
+      onChange: { OnChange: observable },
+      onItemsChanged: { OnItemsChanged: observable },
+      emitter: {
+        on: (event: string, fn: Handler) => event === "change" && this.handlers.set(fn, fn),
+        off: (event: string, fn: Handler) => event === "change" && this.handlers.delete(fn),
+      },
+      eventTarget: {
+        addEventListener: (type: string, fn: Handler) => type === "change" && this.handlers.set(fn, fn),
+        removeEventListener: (type: string, fn: Handler) => type === "change" && this.handlers.delete(fn),
+      },
+    };
+    this.api = apis[shape];
+  }
+
+  get count(): number {
+    return this.handlers.size;
+  }
+
+  fire(...args: any[]) {
+    for (const fn of [...this.handlers.values()]) fn(...args);
+  }
+}
+
+export function item(id: number, name: string, amount = 1): FakeItem {
+  return { _id: id, _amount: amount, _def: { _name: name } };
+}
+
+export interface FakeGameShapes {
+  inventory?: HookShape;
+  bankItems?: HookShape;
+  shop?: HookShape;
+  equipment?: HookShape;
+  trade?: HookShape;
+}
+
+export function createFakeGame(shapes: FakeGameShapes = {}) {
+  const hooks = {
+    inventory: new FakeHook(shapes.inventory ?? "listener"),
+    bankStorage: new FakeHook("listener"),
+    bankReorganized: new FakeHook("listener"),
+    bankItems: new FakeHook(shapes.bankItems ?? "onItemsChanged"),
+    shop: new FakeHook(shapes.shop ?? "emitter"),
+    equipment: new FakeHook(shapes.equipment ?? "onChange"),
+    trade: new FakeHook(shapes.trade ?? "eventTarget"),
+  };
+
+  // The bag's listener object has its own name; other shapes sit on the inventory itself
+  const inventory: { Items: Array<FakeItem | null>; [key: string]: unknown } = { Items: [] };
+  if (hooks.inventory.shape === "listener") inventory.OnInventoryChangeListener = hooks.inventory.api;
+  else Object.assign(inventory, hooks.inventory.api);
+
+  const bankItems = { _items: [] as Array<FakeItem | null>, ...hooks.bankItems.api };
+  const shopItems = { _items: [] as Array<FakeItem | null>, ...hooks.shop.api };
+  const tradeItems = { _items: [] as Array<FakeItem | null>, ...hooks.trade.api };
+  const mainPlayer = {
+    Inventory: inventory,
+    _bankItems: bankItems,
+    BankStorageItems: { OnInventoryChangeListener: hooks.bankStorage.api, OnReorganizedItemsListener: hooks.bankReorganized.api },
+    Loadout: { Items: [] as Array<FakeItem | null>, ...hooks.equipment.api },
+    _currentState: { _shopItems: shopItems, _tradeItems: tradeItems },
+  };
+
+  const definitions = new Map<number, { _id: number; _name: string }>();
+
+  return {
+    gameHooks: {
+      EntityManager: { Instance: { MainPlayer: mainPlayer } },
+      ItemDefinitionManager: { _itemDefMap: definitions },
+    },
+    hooks,
+    definitions,
+    inventory,
+    bank: bankItems,
+    shop: shopItems,
+    /** Replaces one bag slot and fires the bag's change hook for it. */
+    setBagSlot(slot: number, value: FakeItem | null) {
+      inventory.Items[slot] = value;
+      hooks.inventory.fire({ slot });
+    },
+    setBankSlot(slot: number, value: FakeItem | null) {
+      bankItems._items[slot] = value;
+      hooks.bankStorage.fire({ slot });
+    },
+    setShopSlot(slot: number, value: FakeItem | null) {
+      shopItems._items[slot] = value;
+      hooks.shop.fire({ slot });
+    },
+    /** Subscribers across every hook of every container. */
+    listenerCount(): number {
+      return Object.values(hooks).reduce((n, h) => n + h.count, 0);
+    },
+  };
+}
+
+/** What HighLite does on load: stored values first, then every `onLoaded`. */
+export function loadSettings(settings: Record<string, any>, values: Record<string, unknown> = {}) {
+  for (const [key, value] of Object.entries(values)) settings[key].value = value;
+  for (const setting of Object.values(settings)) setting?.onLoaded?.();
+}
+
+/** Resolves after the plugin's pending animation-frame scan has run. */
+export function nextFrame(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+}
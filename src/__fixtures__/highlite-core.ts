@@ -0,0 +1,24 @@
+/**
+ * Test stand-in for @highlite/core
+ * --------------------------
+ * Only what ItemTags touches: settings, gameHooks and logging. The real
+ * loader fills `settings` values from storage and calls each `onLoaded`;
+ * tests do that with `loadSettings` in fakeGame.ts.
+ */
+export enum SettingsTypes {
+  checkbox = "checkbox",
+  range = "range",
+  color = "color",
+  text = "text",
+  button = "button",
+  combobox = "combobox",
+}
+
+export class Plugin {
+  settings: Record<string, any> = {};
+  gameHooks: any = null;
+  data: any = {};
+  log(..._args: any[]) {}
+  warn(..._args: any[]) {}
+  error(..._args: any[]) {}
+}
@@ -0,0 +1,190 @@
+import { capitalize3, DeriveOptions, escapeRegExp, LocalePack, lookup, plain, TagResult, TagRule } from "../TagEngine";
+
+/**
+ * English locale pack
+ * --------------------------
+ * Category patterns follow English word order ("Potion of …", "… logs",
+ * "Rough …", "… necklace"). Tables map the distinguishing word to its tag.
+ */
+// ---------- Abbreviation tables ----------
+/** Gear that the tier × slot pattern would not describe well. */
+export const GEAR_SPECIAL: Record<string, string> = {
+  "bandit mask": "B Mask",
+  "black leather gloves": "B Glove",
+  "damogui's staff": "Damo",
+};
+/** Material or metal tier, the first word(s) of "<tier> <slot>". */
+export const GEAR_TIERS: Record<string, string> = {
+  bronze: "Brnz", iron: "Iron", steel: "Stel", silver: "Silv", gold: "Gold",
+  coronium: "Coro", celadium: "Cela", leather: "Lthr", wooden: "Wood",
+};
+/** Slot or weapon type, the last word(s) of "<tier> <slot>". */
+export const GEAR_SLOTS: Record<string, string> = {
+  "chainmail body": "Chain", chestplate: "Plate", platebody: "Plate", platelegs: "Legs", "full helm": "Fhelm",
+  helm: "Helm", gloves: "Glove", boots: "Boots", shield: "Shld", hatchet: "Axe", pickaxe: "Pick",
+  scimitar: "Scim", longsword: "Long", battleaxe: "Baxe", sword: "Sword", dagger: "Dag", mace: "Mace",
+  spear: "Spear", staff: "Staff", hammer: "Hmr",
+};
+
+export const LOG_TAGS: Record<string, string> = {
+  reg: "Norm", lucky: "Luck", pine: "Pine", deadwood: "Dead", cherry: "Cher", palm: "Palm",
+};
+// Scrolls: no Cherry override (unique); include Palm
+export const SCROLL_TAGS: Record<string, string> = {
+  reg: "Norm", lucky: "Luck", pine: "Pine", deadwood: "Dead", palm: "Palm",
+};
+export const SCROLL_MAGICAL: Record<string, string> = {
+  fire: "Fire", water: "Wat", nature: "Nat", fury: "Fury", rage: "Rage", blood: "Bld", alchemy: "Alch", energy: "En", warp: "Warp", magic: "Mag",
+};
+export const BOW_TAGS: Record<string, string> = {
+  pine: "Pine", deadwood: "Dead", cherry: "Cher", wooden: "Wood", palm: "Palm",
+};
+export const ROOT_TAGS: Record<string, string> = {
+  fiji: "Fiji", maui: "Maui", sardinian: "Sard", grenada: "Gren",
+};
+export const POTION_TAGS: Record<string, string> = {
+  defense: "Def", stamina: "Stam", mining: "Mine", smithing: "Smth", lucky: "Luck", sardinian: "Sard", fishing: "Fish", mischief: "Crim",
+};
+export const GEM_TAGS: Record<string, string> = {
+  amethyst: "Am", sapphire: "Sap", emerald: "Em", ruby: "Ruby", citrine: "Cit", diamond: "Dia", carbonado: "Carb",
+};
+export const ORE_TAGS: Record<string, string> = {
+  coal: "Coal", iron: "Iron", coronium: "Coro", celadium: "Cela", gold: "Gold", silver: "Silv",
+};
+export const BAR_TAGS: Record<string, string> = {
+  iron: "Iron", coronium: "Coro", celadium: "Cela", gold: "Gold", silver: "Silv",
+};
+
+// ---------- Rule table ----------
+const RULES: TagRule[] = [
+  {
+    category: "gear",
+    pattern: new RegExp(`^(${Object.keys(GEAR_SPECIAL).map(escapeRegExp).join("|")})$`, "i"),
+    derive: (m) => plain(GEAR_SPECIAL[m[1].toLowerCase()]),
+  },
+  {
+    // Longest slot first, so "full helm" wins over "helm"
+    category: "gear",
+    pattern: new RegExp(
+      `^(.+?)\\s+(${Object.keys(GEAR_SLOTS).sort((a, b) => b.length - a.length).map(escapeRegExp).join("|")})$`,
+      "i",
+    ),
+    derive: (m, options) =>
+      plain(`${lookup(GEAR_TIERS, m[1], options.abbreviations?.gear)} ${GEAR_SLOTS[m[2].toLowerCase().replace(/\s+/g, " ")]}`),
+  },
+  {
+    category: "potion",
+    pattern: /^potion of\s+(.+?)\s*\((\d+)\)$/i,
+    derive: (m, options) => ({ text: lookup(POTION_TAGS, m[1], options.abbreviations?.potion), suffix: `(${m[2]})` }),
+  },
+  {
+    category: "logs",
+    pattern: /^(.*?)\s*logs$/i,
+    derive: (m, options) => plain(m[1].trim() ? lookup(LOG_TAGS, m[1], options.abbreviations?.logs) : "Norm"),
+  },
+  {
+    category: "root",
+    pattern: /^(.*?)\s+root(s)?$/i,
+    derive: (m, options) => plain(m[1].trim() ? lookup(ROOT_TAGS, m[1], options.abbreviations?.root) : "Norm"),
+  },
+  {
+    category: "scroll",
+    pattern: /^(.*?)\s*scroll$/i,
+    derive: (m, options) => {
+      const prefix = m[1].trim();
+      const magical = SCROLL_MAGICAL[prefix.toLowerCase()];
+      if (magical) return options.ignoreMagicalScrolls ? null : plain(magical);
+      return plain(prefix ? lookup(SCROLL_TAGS, prefix, options.abbreviations?.scroll) : "Norm");
+    },
+  },
+  {
+    category: "bow",
+    pattern: /^(unstrung\s+)?(.+?)\s+bow$/i,
+    derive: (m, options) => ({ text: lookup(BOW_TAGS, m[2], options.abbreviations?.bow), suffix: m[1] ? "(u)" : null }),
+  },
+  {
+    category: "ore",
+    pattern: /^coal$/i,
+    derive: () => plain("Coal"),
+  },
+  {
+    category: "ore",
+    pattern: /^(silver|gold)\s+nugget$/i,
+    derive: (m) => plain(m[1].toLowerCase() === "gold" ? "Gold" : "Silv"),
+  },
+  {
+    category: "ore",
+    pattern: /^(.+?)\s+ore$/i,
+    derive: (m, options) => plain(lookup(ORE_TAGS, m[1], options.abbreviations?.ore)),
+  },
+  {
+    // Pig iron is an intermediate, not a smithable bar
+    category: "bar",
+    pattern: /^pig\s+iron\s+bar$/i,
+    derive: () => null,
+  },
+  {
+    category: "bar",
+    pattern: /^(.+?)\s+bar$/i,
+    derive: (m, options) => plain(lookup(BAR_TAGS, m[1], options.abbreviations?.bar)),
+  },
+  {
+    // Exclude crafting moulds
+    category: "jewelry",
+    pattern: /\bnecklace\s+mould\b/i,
+    derive: () => null,
+  },
+  {
+    category: "jewelry",
+    pattern: /monk'?s\s+necklace\b/i,
+    derive: () => plain("Monk"),
+  },
+  {
+    category: "jewelry",
+    pattern: /\bnecklace\b/i,
+    derive: (m, options) => deriveNecklace(m.input, options),
+  },
+  {
+    category: "gem",
+    pattern: /^rough\s+(.+)$/i,
+    derive: (m, options) => plain(lookup(GEM_TAGS, m[1], options.abbreviations?.gem)),
+  },
+  {
+    // Cut format provided as "GEMTYPE Gem"
+    category: "gem",
+    pattern: /^(.+?)\s+gem$/i,
+    derive: (m, options) => plain(lookup(GEM_TAGS, m[1], options.abbreviations?.gem)),
+  },
+];
+
+export const EN: LocalePack = { id: "en", name: "English", rules: RULES };
+
+/** "[Gold] <gem> necklace [(...)]" → "<Gem> (g|s)" */
+function deriveNecklace(n: string, options: DeriveOptions): Omit<TagResult, "category"> {
+  // Prefer anchored match first
+  const m = /^(?:(gold)\s+)?(.+?)\s+necklace(?:\s*\(.*\))?$/i.exec(n);
+  let gemWord = "";
+  let isGold = false;
+  if (m) {
+    isGold = !!m[1];
+    gemWord = m[2].trim();
+  } else {
+    // Fallback: detect metal anywhere, then take the word before 'necklace'
+    isGold = /\bgold\b/i.test(n);
+    const pre = /([A-Za-z][A-Za-z\-']+)\s+necklace\b/i.exec(n);
+    gemWord = (pre?.[1] || "").trim();
+  }
+
+  let abbr: string;
+  if (gemWord) {
+    abbr = lookup(GEM_TAGS, gemWord, options.abbreviations?.jewelry);
+  } else {
+    // Search any known gem name within the string
+    const lower = n.toLowerCase();
+    const found = Object.keys(GEM_TAGS)
+      .sort((a, b) => b.length - a.length)
+      .find((k) => lower.includes(k));
+    abbr = found ? GEM_TAGS[found] : capitalize3(n);
+  }
+  return { text: abbr, suffix: isGold ? "(g)" : "(s)" };
+}
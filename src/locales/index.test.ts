@@ -0,0 +1,32 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { EN } from "./en";
+import { clientLocale, resolveClientPack, resolveLocalePack } from "./index";
+
+describe("locale packs", () => {
+  afterEach(() => {
+    document.documentElement.lang = "";
+    vi.restoreAllMocks();
+  });
+
+  it("resolves a region to its base language", () => {
+    expect(resolveLocalePack("en-GB")).toBe(EN);
+    expect(resolveLocalePack("EN_us")).toBe(EN);
+    expect(resolveLocalePack("de-DE")).toBeNull();
+  });
+
+  it("reads the client's language, not the operating system's", () => {
+    vi.spyOn(navigator, "language", "get").mockReturnValue("de-DE");
+    expect(clientLocale()).toBe("");
+    document.documentElement.lang = "en";
+    expect(clientLocale()).toBe("en");
+  });
+
+  it("tags in English when the client names no language", () => {
+    expect(resolveClientPack("")).toBe(EN);
+  });
+
+  it("leaves an unknown language to the ID table", () => {
+    expect(resolveClientPack("xx-YY")).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { LocalePack } from "../TagEngine";
+import { EN } from "./en";
+
+/**
+ * Locale packs
+ * --------------------------
+ * One pack per client language. To add a language, create `<id>.ts` next to
+ * en.ts with that language's patterns and tables and register it here.
+ */
+const packs = new Map<string, LocalePack>([[EN.id, EN]]);
+
+export function registerLocalePack(pack: LocalePack) {
+  packs.set(pack.id.toLowerCase(), pack);
+}
+
+export function getLocalePacks(): LocalePack[] {
+  return [...packs.values()];
+}
+
+/** Exact tag first ("pt-br"), then the base language ("pt"); null if neither has a pack. */
+export function resolveLocalePack(locale: string): LocalePack | null {
+  const tag = locale.trim().toLowerCase().replace(/_/g, "-");
+  if (!tag) return null;
+  return packs.get(tag) ?? packs.get(tag.split("-")[0]) ?? null;
+}
+
+/**
+ * The client's UI language from the document's `lang`, or "" when the client
+ * does not set one. The browser's language is not asked: it follows the
+ * operating system, not the game.
+ */
+export function clientLocale(): string {
+  return document.documentElement.lang || "";
+}
+
+/**
+ * Pack for "Auto": English when the client names no language, as the client
+ * itself is English then; null for a language without a pack, which leaves
+ * tagging to the ID table.
+ */
+export function resolveClientPack(locale: string): LocalePack | null {
+  return locale.trim() ? resolveLocalePack(locale) : EN;
+}
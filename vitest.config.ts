@@ -0,0 +1,33 @@
+import { readFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import { defineConfig, Plugin } from "vitest/config";
+
+const TEXT_PREFIX = "\0text:";
+// Vitest empties every module whose ID ends in ".css", so the ID must not
+const TEXT_SUFFIX = ".txt";
+
+/** Imports .css and .html as strings, like the `text` loaders in build.mjs. */
+const textFiles: Plugin = {
+  name: "itemtags-text-files",
+  enforce: "pre",
+  async resolveId(source, importer) {
+    if (!/\.(css|html)$/.test(source)) return null;
+    const resolved = await this.resolve(source, importer, { skipSelf: true });
+    return resolved ? TEXT_PREFIX + resolved.id + TEXT_SUFFIX : null;
+  },
+  async load(id) {
+    if (!id.startsWith(TEXT_PREFIX)) return null;
+    return `export default ${JSON.stringify(await readFile(id.slice(TEXT_PREFIX.length, -TEXT_SUFFIX.length), "utf8"))};`;
+  },
+};
+
+export default defineConfig({
+  plugins: [textFiles],
+  resolve: {
+    // HighLite provides the real module at runtime; tests run against a stand-in
+    alias: { "@highlite/core": fileURLToPath(new URL("./src/__fixtures__/highlite-core.ts", import.meta.url)) },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});